@@ -1,32 +1,177 @@
-import React, { useState } from 'react';
-import { Rule, ProductAttribute } from './types';
-import { INITIAL_RULES, ATTRIBUTES as INITIAL_ATTRIBUTES } from './services/mockData';
+import React, { useState, useEffect } from 'react';
+import { Rule, ProductAttribute, PriceRule, Configuration, ProjectData, ProjectFieldError, ImportMode, ImportConflictPolicy, AuditEvent, GoldenTest, ComponentModel, QuoteRule, LineItem } from './types';
+import {
+  Workspace, loadWorkspace, loadProject, saveProject, createProject, createEmptyProject,
+  setActiveProject, renameProject, duplicateProject, deleteProject, loadActor, saveActor
+} from './services/storage';
+import { getDefaultConfig } from './services/engine';
+import { mergeProjects, CURRENT_FORMAT_VERSION } from './services/projectFormat';
+import { diffRules } from './services/audit';
+import { getQuoteModels, newLineItem } from './services/quote';
 import Navbar from './components/Navbar';
+import ProjectSwitcher from './components/ProjectSwitcher';
 import Configurator from './pages/Configurator';
 import Authoring from './pages/Authoring';
+import Quote from './pages/Quote';
+
+// How long to wait after the last edit before writing to storage
+const AUTOSAVE_DELAY = 500;
 
 const App: React.FC = () => {
-  const [currentTab, setCurrentTab] = useState<'configure' | 'author'>('configure');
-  const [rules, setRules] = useState<Rule[]>(INITIAL_RULES);
-  const [attributes, setAttributes] = useState<ProductAttribute[]>(INITIAL_ATTRIBUTES);
+  const [currentTab, setCurrentTab] = useState<'configure' | 'quote' | 'author'>('configure');
+  const [workspace, setWorkspace] = useState<Workspace>(loadWorkspace);
+  const [opened] = useState(() => {
+    let errors: ProjectFieldError[] = [];
+    const data = loadProject(workspace.activeId, e => { errors = e; }) || createEmptyProject();
+    return { data, errors };
+  });
+  const initial = opened.data;
+  // Problems with the stored copy of the open project, which is then opened empty instead
+  const [loadErrors, setLoadErrors] = useState<ProjectFieldError[]>(opened.errors);
+  const [rules, setRules] = useState<Rule[]>(initial.rules);
+  const [attributes, setAttributes] = useState<ProductAttribute[]>(initial.attributes);
+  const [priceRules, setPriceRules] = useState<PriceRule[]>(initial.priceRules || []);
+  const [drafts, setDrafts] = useState<Rule[]>(initial.drafts || []);
+  const [config, setConfig] = useState<Configuration>(() => initial.config || getDefaultConfig(initial.attributes));
+  const [auditLog, setAuditLog] = useState<AuditEvent[]>(initial.auditLog || []);
+  const [goldenTests, setGoldenTests] = useState<GoldenTest[]>(initial.goldenTests || []);
+  const [components, setComponents] = useState<ComponentModel[]>(initial.components || []);
+  const [quoteRules, setQuoteRules] = useState<QuoteRule[]>(initial.quoteRules || []);
+  const [quote, setQuote] = useState<LineItem[]>(initial.quote || []);
+  const [actor, setActor] = useState(loadActor);
+  const [saveFailed, setSaveFailed] = useState(false);
+
+  const projectData: ProjectData = { formatVersion: CURRENT_FORMAT_VERSION, attributes, rules, drafts, auditLog, goldenTests, priceRules, config, components, quoteRules, quote };
+
+  // Autosave the active project
+  useEffect(() => {
+    const timer = setTimeout(() => setSaveFailed(!saveProject(workspace.activeId, projectData)), AUTOSAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [workspace.activeId, attributes, rules, drafts, auditLog, goldenTests, priceRules, config, components, quoteRules, quote]);
+
+  const applyProject = (data: ProjectData) => {
+    setRules(data.rules);
+    setAttributes(data.attributes);
+    setPriceRules(data.priceRules || []);
+    setDrafts(data.drafts || []);
+    setAuditLog(data.auditLog || []);
+    setGoldenTests(data.goldenTests || []);
+    setConfig(data.config || getDefaultConfig(data.attributes));
+    setComponents(data.components || []);
+    setQuoteRules(data.quoteRules || []);
+    setQuote(data.quote || []);
+  };
+
+  const openProject = (next: Workspace) => {
+    setWorkspace(next);
+    setLoadErrors([]);
+    applyProject(loadProject(next.activeId, setLoadErrors) || createEmptyProject());
+  };
+
+  const recordAudit = (events: AuditEvent[]) => {
+    if (events.length > 0) setAuditLog(prev => [...prev, ...events]);
+  };
+
+  const handleActorChange = (name: string) => {
+    setActor(name);
+    saveActor(name);
+  };
+
+  // Imports land in the open project, either replacing it or merged into it. The open project's
+  // audit log is kept either way and records every rule the import changed.
+  const handleImportProject = (data: ProjectData, mode: ImportMode, policy: ImportConflictPolicy) => {
+    const next = mode === 'replace' ? data : mergeProjects(projectData, data, policy);
+    applyProject({ ...next, auditLog: [...auditLog, ...diffRules(rules, next.rules, 'imported', actor)] });
+  };
+
+  // Flush pending edits first: the autosave timer of the project being left is cancelled on switch
+  const withCurrentSaved = (action: () => Workspace) => {
+    saveProject(workspace.activeId, projectData);
+    openProject(action());
+  };
+
+  const handleSelectProject = (id: string) => {
+    if (id !== workspace.activeId) withCurrentSaved(() => setActiveProject(workspace, id));
+  };
+
+  const handleCreateProject = (name: string) => withCurrentSaved(() => createProject(workspace, name, createEmptyProject()));
+
+  const handleDuplicateProject = (id: string) => withCurrentSaved(() => duplicateProject(workspace, id));
+
+  const handleRenameProject = (id: string, name: string) => setWorkspace(renameProject(workspace, id, name));
+
+  const handleDeleteProject = (id: string) => {
+    const next = deleteProject(workspace, id);
+    if (next.activeId === workspace.activeId) {
+      setWorkspace(next);
+    } else {
+      openProject(next);
+    }
+  };
 
   return (
     <div className="min-h-screen bg-gray-50 text-gray-900 font-sans">
-      <Navbar currentTab={currentTab} onTabChange={setCurrentTab} />
-      
-      <main>
+      <Navbar currentTab={currentTab} onTabChange={setCurrentTab}>
+        <ProjectSwitcher
+          workspace={workspace}
+          saveFailed={saveFailed}
+          onSelect={handleSelectProject}
+          onCreate={handleCreateProject}
+          onRename={handleRenameProject}
+          onDuplicate={handleDuplicateProject}
+          onDelete={handleDeleteProject}
+        />
+      </Navbar>
+
+      {loadErrors.length > 0 && (
+        <div className="bg-red-50 border-b border-red-200 px-4 py-2 text-sm text-red-800">
+          <div className="max-w-7xl mx-auto">
+            The saved copy of this project is damaged and was not opened ({loadErrors.length} problem{loadErrors.length === 1 ? '' : 's'}, e.g.{' '}
+            {loadErrors[0].path && <span className="font-mono">{loadErrors[0].path}</span>} {loadErrors[0].message}).
+            It is kept in browser storage under <span className="font-mono">cpq.project.{workspace.activeId}.invalid</span>; an empty project is shown instead.
+            <button onClick={() => setLoadErrors([])} className="ml-2 font-medium underline">Dismiss</button>
+          </div>
+        </div>
+      )}
+
+      {/* Keyed by project so per-page state (validation, analysis, editors) starts fresh on switch */}
+      <main key={workspace.activeId}>
         {currentTab === 'configure' ? (
-          <Configurator 
-            rules={rules} 
-            setRules={setRules}
+          <Configurator
+            rules={rules}
             attributes={attributes}
-            setAttributes={setAttributes}
+            priceRules={priceRules}
+            project={projectData}
+            config={config}
+            setConfig={setConfig}
+            onImportProject={handleImportProject}
+            onAddGoldenTest={(test) => setGoldenTests(prev => [...prev, test])}
+            onAddToQuote={(lineConfig) => setQuote(prev => [...prev, { ...newLineItem(getQuoteModels(projectData)[0]), config: lineConfig }])}
+          />
+        ) : currentTab === 'quote' ? (
+          <Quote
+            rules={rules}
+            attributes={attributes}
+            priceRules={priceRules}
+            components={components}
+            quoteRules={quoteRules}
+            quote={quote}
+            setQuote={setQuote}
           />
         ) : (
-          <Authoring 
-            rules={rules} 
-            setRules={setRules} 
+          <Authoring
+            rules={rules}
+            setRules={setRules}
             attributes={attributes}
+            setAttributes={setAttributes}
+            drafts={drafts}
+            setDrafts={setDrafts}
+            auditLog={auditLog}
+            onAudit={recordAudit}
+            actor={actor}
+            onActorChange={handleActorChange}
+            goldenTests={goldenTests}
+            setGoldenTests={setGoldenTests}
           />
         )}
       </main>
@@ -34,4 +179,4 @@ const App: React.FC = () => {
   );
 };
 
-export default App;
\ No newline at end of file
+export default App;
@@ -0,0 +1,77 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { spawnSync } from 'node:child_process';
+import { mkdtempSync, writeFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { GoldenTest } from '../types';
+import { createSampleProject } from '../services/storage';
+
+const TSX = fileURLToPath(new URL('../node_modules/tsx/dist/cli.mjs', import.meta.url));
+const CLI = fileURLToPath(new URL('./cpq.ts', import.meta.url));
+
+// Every case starts a fresh process
+const CLI_TIMEOUT = 60000;
+
+let dir: string;
+const file = (name: string, content: unknown) => {
+  const path = join(dir, name);
+  writeFileSync(path, typeof content === 'string' ? content : JSON.stringify(content));
+  return path;
+};
+
+const cpq = (...args: string[]) => {
+  const result = spawnSync(process.execPath, [TSX, CLI, ...args], { encoding: 'utf8', timeout: CLI_TIMEOUT });
+  return { code: result.status, output: result.stdout + result.stderr };
+};
+
+const VALID = { motor_type: 'motor-A', cooling_unit: 'ACM-400', environment: 'indoor' };
+const TOO_HOT = { motor_type: 'motor-C', cooling_unit: 'ACM-400', environment: 'indoor' };
+
+beforeAll(() => {
+  dir = mkdtempSync(join(tmpdir(), 'cpq-cli-'));
+});
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe('cpq', () => {
+  it('exits 0 for a valid configuration and 1 for an invalid one', () => {
+    const project = file('project.json', createSampleProject());
+    expect(cpq('validate', project, '--config', file('valid.json', VALID)).code).toBe(0);
+
+    const invalid = cpq('validate', project, '--config', file('invalid.json', TOO_HOT));
+    expect(invalid.code).toBe(1);
+    expect(invalid.output).toContain('rule-001');
+  }, CLI_TIMEOUT * 2);
+
+  it('exits 1 when any configuration of a batch is invalid', () => {
+    const batch = file('batch.jsonl', `${JSON.stringify(VALID)}\n\n${JSON.stringify(TOO_HOT)}\n`);
+    const result = cpq('validate', file('project.json', createSampleProject()), '--batch', batch);
+    expect(result.code).toBe(1);
+    expect(result.output).toContain('1 of 2 valid');
+  }, CLI_TIMEOUT);
+
+  it('exits 0 when every golden test passes and 1 when one fails', () => {
+    const passing: GoldenTest = { id: 'hot', name: 'Too hot', config: TOO_HOT, expect: 'invalid', expectedRuleIds: ['rule-001'] };
+    const withTests = (...goldenTests: GoldenTest[]) => file('tests.json', { ...createSampleProject(), goldenTests });
+
+    expect(cpq('test', withTests(passing)).code).toBe(0);
+    expect(cpq('test', withTests(passing), '--engine', 'z3').code).toBe(0);
+    expect(cpq('test', withTests(passing, { ...passing, id: 'wrong', expect: 'valid' })).code).toBe(1);
+  }, CLI_TIMEOUT * 3);
+
+  it('exits 1 when the project has no golden tests', () => {
+    const result = cpq('test', file('project.json', createSampleProject()));
+    expect(result.code).toBe(1);
+    expect(result.output).toContain('no golden tests');
+  }, CLI_TIMEOUT);
+
+  it('exits 2 when the input cannot be read or the command is unknown', () => {
+    expect(cpq('validate', join(dir, 'missing.json')).code).toBe(2);
+    expect(cpq('validate', file('broken.json', '{ not json')).code).toBe(2);
+    expect(cpq('validate', file('invalid-project.json', { ...createSampleProject(), rules: 'none' })).code).toBe(2);
+    expect(cpq('deploy', file('project.json', createSampleProject())).code).toBe(2);
+  }, CLI_TIMEOUT * 4);
+});
@@ -0,0 +1,194 @@
+// Headless access to the rule engines for scripts and CI pipelines.
+//
+//   npm run cli -- validate <project.json> [--config <config.json> | --batch <configs.jsonl>] [--engine z3]
+//   npm run cli -- check <project.json> [--strict]
+//   npm run cli -- test <project.json> [--engine z3]
+//
+// Add --json to any command for machine-readable output, --timeout <seconds> to change how
+// long one Z3 check may take (default 30). Exit codes: 0 when everything passes, 1 when a
+// configuration is invalid, the rules are inconsistent, a test fails, the project has no
+// tests or Z3 runs out of time, 2 when the input cannot be read.
+import { readFileSync } from 'node:fs';
+import { Configuration, ProjectData, ValidationResult } from '../types';
+import { validateDeterministic } from '../services/engine';
+import { Z3SatEngine, Z3Timeout, setZ3TimeLimit } from '../services/z3Service';
+import { analyzeKnowledgeBase } from '../services/analyzer';
+import { migrateProject, validateProjectData } from '../services/projectFormat';
+import { runGoldenTestsDeterministic, runGoldenTestsZ3 } from '../services/goldenTests';
+
+type Engine = 'deterministic' | 'z3';
+
+const USAGE = `Usage:
+  cpq validate <project.json> [--config <config.json> | --batch <configs.jsonl>] [--engine deterministic|z3] [--json]
+  cpq check <project.json> [--strict] [--json]
+  cpq test <project.json> [--engine deterministic|z3] [--json]
+Every command also takes --timeout <seconds> for each Z3 check (default 30).`;
+
+class CliError extends Error {}
+class UsageError extends CliError {}
+
+const parseArgs = (argv: string[]) => {
+  const [command, projectPath, ...rest] = argv;
+  const flags: Record<string, string | boolean> = {};
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i];
+    if (!arg.startsWith('--')) throw new UsageError(`Unexpected argument "${arg}".`);
+    const next = rest[i + 1];
+    if (next !== undefined && !next.startsWith('--')) {
+      flags[arg.slice(2)] = next;
+      i++;
+    } else {
+      flags[arg.slice(2)] = true;
+    }
+  }
+  if (!command || !projectPath) throw new UsageError('Missing command or project file.');
+
+  const engine = (flags.engine || 'deterministic') as Engine;
+  if (!['deterministic', 'z3'].includes(engine)) throw new UsageError(`Unknown engine "${flags.engine}".`);
+  const timeout = flags.timeout === undefined ? 30 : Number(flags.timeout === true ? NaN : flags.timeout);
+  if (!(timeout > 0)) throw new UsageError('--timeout takes a number of seconds.');
+  return { command, projectPath, flags, engine, timeout };
+};
+
+const readJson = (path: string): any => {
+  try {
+    return JSON.parse(readFileSync(path, 'utf8'));
+  } catch (e) {
+    throw new CliError(`Cannot read ${path}: ${(e as Error).message}`);
+  }
+};
+
+// Same path as an import in the app: upgrade older formats, then validate strictly
+const loadProject = (path: string): ProjectData => {
+  const { data } = migrateProject(readJson(path));
+  const errors = validateProjectData(data);
+  if (errors.length > 0) {
+    throw new CliError(`${path} is not a valid project:\n` + errors.map(e => `  ${e.path} ${e.message}`).join('\n'));
+  }
+  return data;
+};
+
+// Each non-empty line is one Configuration object
+const loadBatch = (path: string): Configuration[] => {
+  let text: string;
+  try {
+    text = readFileSync(path, 'utf8');
+  } catch (e) {
+    throw new CliError(`Cannot read ${path}: ${(e as Error).message}`);
+  }
+  return text.split('\n').flatMap((line, idx) => {
+    if (line.trim() === '') return [];
+    try {
+      return [JSON.parse(line)];
+    } catch {
+      throw new CliError(`${path}:${idx + 1} is not valid JSON.`);
+    }
+  });
+};
+
+const z3Engine = new Z3SatEngine();
+
+const validate = (engine: Engine, config: Configuration, project: ProjectData): Promise<ValidationResult> | ValidationResult =>
+  engine === 'z3'
+    ? z3Engine.validate(config, project.rules, project.attributes)
+    : validateDeterministic(config, project.rules, project.attributes);
+
+const printViolations = (label: string, result: ValidationResult) => {
+  console.log(`${label}: ${result.isValid ? 'valid' : 'INVALID'}`);
+  for (const v of result.violations) {
+    const attrs = v.involvedAttributes?.length ? ` [${v.involvedAttributes.join(', ')}]` : '';
+    console.log(`  ${v.severity.toUpperCase()} ${v.rule_id}: ${v.message}${attrs}`);
+  }
+};
+
+const runValidate = async (project: ProjectData, flags: Record<string, string | boolean>, engine: Engine, json: boolean): Promise<number> => {
+  let configs: { label: string; config: Configuration }[];
+  if (typeof flags.batch === 'string') {
+    configs = loadBatch(flags.batch).map((config, idx) => ({ label: `#${idx + 1}`, config }));
+  } else if (typeof flags.config === 'string') {
+    configs = [{ label: flags.config, config: readJson(flags.config) }];
+  } else {
+    // Without an explicit configuration, check the one saved with the project
+    configs = [{ label: 'project config', config: project.config || {} }];
+  }
+
+  let invalid = 0;
+  const results = [];
+  for (const { label, config } of configs) {
+    const result = await validate(engine, config, project);
+    if (!result.isValid) invalid++;
+    if (json) results.push({ label, ...result });
+    else printViolations(label, result);
+  }
+
+  if (json) console.log(JSON.stringify(configs.length === 1 ? results[0] : results, null, 2));
+  else if (configs.length > 1) console.log(`\n${configs.length - invalid} of ${configs.length} valid (${engine}).`);
+  return invalid > 0 ? 1 : 0;
+};
+
+const runCheck = async (project: ProjectData, strict: boolean, json: boolean): Promise<number> => {
+  const report = await analyzeKnowledgeBase(project.rules, project.attributes);
+  if (json) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    console.log(report.consistent ? 'Rules are consistent.' : 'Rules are INCONSISTENT.');
+    report.issues.forEach(issue => console.log(`  ${issue.kind}: ${issue.message}`));
+  }
+  // Dead and redundant rules are only worth a warning unless --strict
+  return !report.consistent || (strict && report.issues.length > 0) ? 1 : 0;
+};
+
+const runTests = async (project: ProjectData, engine: Engine, json: boolean): Promise<number> => {
+  const tests = project.goldenTests || [];
+  // A gate that checks nothing should not pass
+  if (tests.length === 0) {
+    console.error('The project has no golden tests, so nothing was checked.');
+    return 1;
+  }
+  const results = engine === 'z3'
+    ? await runGoldenTestsZ3(tests, project.rules, project.attributes, z3Engine)
+    : runGoldenTestsDeterministic(tests, project.rules, project.attributes);
+
+  if (json) {
+    console.log(JSON.stringify(results, null, 2));
+  } else {
+    results.forEach(r => {
+      const name = tests.find(t => t.id === r.test_id)?.name || r.test_id;
+      console.log(`${r.passed ? 'PASS' : 'FAIL'} ${name}: ${r.message}`);
+    });
+    console.log(`\n${results.filter(r => r.passed).length} of ${results.length} tests passed (${engine}).`);
+  }
+  return results.every(r => r.passed) ? 0 : 1;
+};
+
+const main = async (): Promise<number> => {
+  try {
+    const { command, projectPath, flags, engine, timeout } = parseArgs(process.argv.slice(2));
+    setZ3TimeLimit(timeout * 1000);
+    const project = loadProject(projectPath);
+    const json = flags.json === true;
+
+    switch (command) {
+      case 'validate': return await runValidate(project, flags, engine, json);
+      case 'check': return await runCheck(project, flags.strict === true, json);
+      case 'test': return await runTests(project, engine, json);
+      default: throw new UsageError(`Unknown command "${command}".`);
+    }
+  } catch (e) {
+    // validate and test report a timeout per configuration; check has a single answer
+    if (e instanceof Z3Timeout) {
+      console.error(`${e.message}.`);
+      return 1;
+    }
+    if (!(e instanceof CliError)) throw e;
+    console.error(e.message);
+    if (e instanceof UsageError) console.error(USAGE);
+    return 2;
+  }
+};
+
+// Exit explicitly: the Z3 worker threads would otherwise keep the process alive
+main().then(code => process.exit(code), err => {
+  console.error(err);
+  process.exit(2);
+});
@@ -0,0 +1,200 @@
+import React, { useState } from 'react';
+import { ProductAttribute, AttributeOption } from '../types';
+import { coerceValue } from '../services/ruleSchema';
+
+interface AttributeEditorProps {
+  attribute: ProductAttribute;
+  isNew?: boolean; // The id can only be chosen on creation, since rules refer to it
+  existingIds: string[];
+  onSave: (attr: ProductAttribute) => void;
+  onCancel: () => void;
+}
+
+const inputClass = 'w-full px-2 py-1 border border-gray-300 rounded text-xs focus:ring-indigo-500 focus:border-indigo-500';
+
+const AttributeEditor: React.FC<AttributeEditorProps> = ({ attribute, isNew, existingIds, onSave, onCancel }) => {
+  const [draft, setDraft] = useState<ProductAttribute>(attribute);
+
+  const options = draft.options || [];
+  const setOptions = (next: AttributeOption[]) => setDraft({ ...draft, options: next.length > 0 ? next : undefined });
+  const updateOption = (idx: number, patch: Partial<AttributeOption>) =>
+    setOptions(options.map((opt, i) => i === idx ? { ...opt, ...patch } : opt));
+
+  const idTaken = isNew && existingIds.includes(draft.id);
+  const needsOptions = draft.type === 'multi' && options.length === 0;
+  const badRange = draft.min !== undefined && draft.max !== undefined && draft.min > draft.max;
+  const canSave = draft.id.trim() !== '' && draft.name.trim() !== '' && !idTaken && !needsOptions && !badRange;
+
+  const handleSave = () => {
+    // Re-type option values and the default in case the type changed after they were entered
+    const typed = options.map(opt => ({ ...opt, value: coerceValue(opt.value, draft) }));
+    onSave({
+      ...draft,
+      id: draft.id.trim(),
+      options: typed.length > 0 ? typed : undefined,
+      defaultValue: draft.type === 'multi' || draft.defaultValue === undefined || draft.defaultValue === '' ? undefined : coerceValue(draft.defaultValue, draft)
+    });
+  };
+
+  return (
+    <div className="p-3 rounded border border-indigo-200 bg-indigo-50/40 space-y-2 text-xs">
+      <div className="grid grid-cols-2 gap-2">
+        <label className="block">
+          <span className="text-gray-600">Id</span>
+          <input
+            className={`${inputClass} font-mono ${idTaken ? 'border-red-400' : ''}`}
+            value={draft.id}
+            disabled={!isNew}
+            onChange={(e) => setDraft({ ...draft, id: e.target.value.replace(/\s+/g, '_') })}
+          />
+          {idTaken && <span className="text-red-600">Id already in use</span>}
+        </label>
+        <label className="block">
+          <span className="text-gray-600">Name</span>
+          <input className={inputClass} value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} />
+        </label>
+        <label className="block">
+          <span className="text-gray-600">Type</span>
+          <select
+            className={inputClass}
+            value={draft.type}
+            onChange={(e) => setDraft({ ...draft, type: e.target.value as ProductAttribute['type'] })}
+          >
+            <option value="string">string</option>
+            <option value="number">number</option>
+            <option value="boolean">boolean</option>
+            <option value="multi">multi-select</option>
+            <option value="quantity">quantity</option>
+          </select>
+        </label>
+        <label className="block">
+          <span className="text-gray-600">Default value</span>
+          {draft.type === 'multi' ? (
+            <p className="py-1 text-gray-400 italic">Starts with nothing picked</p>
+          ) : options.length > 0 ? (
+            <select
+              className={inputClass}
+              value={draft.defaultValue === undefined ? '' : String(draft.defaultValue)}
+              onChange={(e) => setDraft({ ...draft, defaultValue: e.target.value === '' ? undefined : e.target.value })}
+            >
+              <option value="">(none)</option>
+              {options.map((opt, idx) => (
+                <option key={idx} value={String(opt.value)}>{opt.label || String(opt.value)}</option>
+              ))}
+            </select>
+          ) : (
+            <input
+              className={inputClass}
+              value={draft.defaultValue ?? ''}
+              onChange={(e) => setDraft({ ...draft, defaultValue: e.target.value })}
+            />
+          )}
+        </label>
+        <label className="block">
+          <span className="text-gray-600">Base price</span>
+          <input
+            type="number"
+            className={inputClass}
+            value={draft.basePrice ?? ''}
+            onChange={(e) => setDraft({ ...draft, basePrice: e.target.value === '' ? undefined : Number(e.target.value) })}
+          />
+        </label>
+        {(draft.type === 'multi' || draft.type === 'quantity' || draft.type === 'number') && (
+          <div className="grid grid-cols-2 gap-2">
+            {(['min', 'max'] as const).map(bound => (
+              <label key={bound} className="block">
+                <span className="text-gray-600">
+                  {bound === 'min' ? 'Min' : 'Max'} {draft.type === 'multi' ? 'picks' : draft.type === 'quantity' ? 'amount' : 'value'}
+                </span>
+                <input
+                  type="number"
+                  min={draft.type === 'number' ? undefined : 0}
+                  step={draft.type === 'number' ? 'any' : 1}
+                  className={inputClass}
+                  value={draft[bound] ?? ''}
+                  onChange={(e) => {
+                    const num = Number(e.target.value);
+                    setDraft({ ...draft, [bound]: e.target.value === '' ? undefined : draft.type === 'number' ? num : Math.round(num) });
+                  }}
+                />
+              </label>
+            ))}
+            {badRange && <span className="col-span-2 text-red-600">Min is above max</span>}
+          </div>
+        )}
+        {draft.type === 'number' && (
+          <div className="grid grid-cols-2 gap-2">
+            <label className="block">
+              <span className="text-gray-600">Step</span>
+              <input
+                type="number"
+                min={0}
+                step="any"
+                className={inputClass}
+                value={draft.step ?? ''}
+                onChange={(e) => setDraft({ ...draft, step: Number(e.target.value) > 0 ? Number(e.target.value) : undefined })}
+              />
+            </label>
+            <label className="block">
+              <span className="text-gray-600">Unit</span>
+              <input
+                className={inputClass}
+                placeholder="e.g. hp"
+                value={draft.unit ?? ''}
+                onChange={(e) => setDraft({ ...draft, unit: e.target.value || undefined })}
+              />
+            </label>
+          </div>
+        )}
+        <label className="flex items-center mt-4">
+          <input
+            type="checkbox"
+            className="mr-1"
+            checked={!!draft.required}
+            onChange={(e) => setDraft({ ...draft, required: e.target.checked })}
+          />
+          Required
+        </label>
+      </div>
+
+      <div>
+        <div className="text-gray-600 mb-1">Options</div>
+        {options.length === 0 && (
+          <p className={`italic mb-1 ${needsOptions ? 'text-red-600' : 'text-gray-400'}`}>
+            {needsOptions ? 'A multi-select needs options to pick from.' : 'No options: free entry.'}
+          </p>
+        )}
+        {options.map((opt, idx) => (
+          <div key={idx} className="flex space-x-1 mb-1">
+            <input className={inputClass} placeholder="Label" value={opt.label} onChange={(e) => updateOption(idx, { label: e.target.value })} />
+            <input className={`${inputClass} font-mono`} placeholder="Value" value={String(opt.value ?? '')} onChange={(e) => updateOption(idx, { value: e.target.value })} />
+            <input
+              type="number"
+              className={`${inputClass} w-24`}
+              placeholder="Price"
+              value={opt.price ?? ''}
+              onChange={(e) => updateOption(idx, { price: e.target.value === '' ? undefined : Number(e.target.value) })}
+            />
+            <button onClick={() => setOptions(options.filter((_, i) => i !== idx))} className="px-1 text-gray-400 hover:text-red-600" title="Remove option">×</button>
+          </div>
+        ))}
+        <button onClick={() => setOptions([...options, { label: '', value: '' }])} className="text-indigo-600 hover:text-indigo-800">
+          + Option
+        </button>
+      </div>
+
+      <div className="flex justify-end space-x-2 pt-1">
+        <button onClick={onCancel} className="text-gray-500 hover:text-gray-700 font-medium">Cancel</button>
+        <button
+          onClick={handleSave}
+          disabled={!canSave}
+          className="bg-indigo-600 text-white px-3 py-1 rounded hover:bg-indigo-700 transition-colors disabled:opacity-50"
+        >
+          Save
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default AttributeEditor;
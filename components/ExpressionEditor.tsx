@@ -0,0 +1,301 @@
+import React, { useState, useEffect } from 'react';
+import { RuleExpression, RuleCondition, ProductAttribute, ConditionOperator } from '../types';
+import { operatorsFor, isListOperator, isCountOperator, isAndExpression, isOrExpression, isNotExpression, formatValue } from '../services/expressions';
+import { isComputedValue, parseFormula } from '../services/formula';
+
+interface ExpressionEditorProps {
+  expr: RuleExpression;
+  attributes: ProductAttribute[];
+  onChange: (expr: RuleExpression) => void;
+  onRemove?: () => void;
+}
+
+const inputClass = 'px-1.5 py-1 border border-gray-300 rounded text-xs bg-white focus:ring-indigo-500 focus:border-indigo-500';
+
+// A fresh condition on the first attribute, pre-filled with a sensible value
+export const newCondition = (attributes: ProductAttribute[]): RuleCondition => {
+  const attr = attributes[0];
+  const operator = operatorsFor(attr)[0];
+  return {
+    attribute: attr?.id || '',
+    operator,
+    value: attr ? defaultValueFor(attr, operator) : ''
+  };
+};
+
+export const defaultValueFor = (attr: ProductAttribute | undefined, operator: ConditionOperator = '=='): any => {
+  if (!attr) return '';
+  if (isListOperator(operator)) return [];
+  if (isCountOperator(operator)) return 1;
+  if (attr.type === 'multi' && operator !== 'contains') return []; // Assigned as a list of picks
+  if (attr.options && attr.options.length > 0) return attr.options[0].value;
+  if (attr.type === 'number' || attr.type === 'quantity') return attr.min ?? 0;
+  if (attr.type === 'boolean') return true;
+  return '';
+};
+
+// Operators that take the same kind of value can be swapped without resetting it
+const valueShape = (op: ConditionOperator) => isListOperator(op) ? 'list' : isCountOperator(op) ? 'count' : 'single';
+
+// Free-text formula such as "400 * motor_hp". The value only changes while the text parses,
+// so a half-typed formula does not wipe the last good one.
+const FormulaInput: React.FC<{ value: any; onChange: (value: any) => void }> = ({ value, onChange }) => {
+  const [text, setText] = useState(formatValue(value));
+  const parsed = parseFormula(text);
+
+  // Follow changes made elsewhere, e.g. the attribute being switched
+  useEffect(() => {
+    if (JSON.stringify(parseFormula(text)) !== JSON.stringify(value)) setText(formatValue(value));
+  }, [value]);
+
+  return (
+    <input
+      className={`${inputClass} w-40 font-mono ${parsed === null ? 'border-red-400 bg-red-50' : ''}`}
+      value={text}
+      placeholder="400 * motor_hp"
+      title="Numbers, attribute ids, + - * / and min(...) max(...)"
+      onChange={(e) => {
+        setText(e.target.value);
+        const next = parseFormula(e.target.value);
+        if (next !== null) onChange(next);
+      }}
+    />
+  );
+};
+
+// Fixed value input driven by the attribute: option list, number, boolean or free text
+const LiteralPicker: React.FC<{ condition: RuleCondition; attr?: ProductAttribute; onChange: (value: any) => void }> = ({ condition, attr, onChange }) => {
+  if (attr?.options && attr.options.length > 0) {
+    const index = attr.options.findIndex(opt => opt.value == condition.value);
+    return (
+      <select className={inputClass} value={index} onChange={(e) => onChange(attr.options![Number(e.target.value)].value)}>
+        {index === -1 && <option value={-1}>{String(condition.value)} (not an option)</option>}
+        {attr.options.map((opt, i) => (
+          <option key={String(opt.value)} value={i}>{String(opt.value)}</option>
+        ))}
+      </select>
+    );
+  }
+
+  if (attr?.type === 'boolean') {
+    return (
+      <select className={inputClass} value={String(condition.value)} onChange={(e) => onChange(e.target.value === 'true')}>
+        <option value="true">true</option>
+        <option value="false">false</option>
+      </select>
+    );
+  }
+
+  const isNumeric = attr?.type === 'number' || attr?.type === 'quantity';
+  const input = (
+    <input
+      type={isNumeric ? 'number' : 'text'}
+      step={attr?.type === 'quantity' ? 1 : isNumeric ? 'any' : undefined}
+      className={`${inputClass} w-24`}
+      value={condition.value ?? ''}
+      onChange={(e) => onChange(isNumeric ? Number(e.target.value) : e.target.value)}
+    />
+  );
+  if (!attr?.unit) return input;
+  return (
+    <span className="inline-flex items-center text-xs">
+      {input}
+      <span className="ml-1 text-gray-500">{attr.unit}</span>
+    </span>
+  );
+};
+
+// Value input for a condition or assignment. Numeric attributes can switch to a formula over
+// other attributes; list and count operators get their own inputs.
+export const ValuePicker: React.FC<{ condition: RuleCondition; attr?: ProductAttribute; onChange: (value: any) => void }> = ({ condition, attr, onChange }) => {
+  const [formulaMode, setFormulaMode] = useState(isComputedValue(condition.value));
+
+  if (isCountOperator(condition.operator)) {
+    return (
+      <span className="inline-flex items-center text-xs">
+        <input
+          type="number"
+          min={0}
+          className={`${inputClass} w-16`}
+          value={condition.value ?? ''}
+          onChange={(e) => onChange(Number(e.target.value))}
+        />
+        <span className="ml-1 text-gray-500">picked</span>
+      </span>
+    );
+  }
+
+  if (isListOperator(condition.operator)) {
+    const selected: any[] = Array.isArray(condition.value) ? condition.value : [];
+    if (!attr?.options) {
+      return (
+        <input
+          className={inputClass}
+          value={selected.join(', ')}
+          placeholder="a, b, c"
+          onChange={(e) => onChange(e.target.value.split(',').map(v => v.trim()).filter(Boolean))}
+        />
+      );
+    }
+    return (
+      <span className="inline-flex flex-wrap gap-1">
+        {attr.options.map(opt => (
+          <label key={String(opt.value)} className="inline-flex items-center text-xs">
+            <input
+              type="checkbox"
+              className="mr-0.5"
+              checked={selected.some(v => v == opt.value)}
+              onChange={(e) => onChange(e.target.checked
+                ? [...selected, opt.value]
+                : selected.filter(v => v != opt.value))}
+            />
+            {String(opt.value)}
+          </label>
+        ))}
+      </span>
+    );
+  }
+
+  const isNumeric = attr?.type === 'number' || attr?.type === 'quantity';
+  if (!isNumeric) return <LiteralPicker condition={condition} attr={attr} onChange={onChange} />;
+
+  const toggle = (
+    <button
+      onClick={() => {
+        if (formulaMode && isComputedValue(condition.value)) onChange(defaultValueFor(attr, condition.operator));
+        setFormulaMode(!formulaMode);
+      }}
+      className={`ml-1 px-1 text-xs rounded ${formulaMode ? 'bg-indigo-100 text-indigo-700' : 'text-gray-400 hover:text-indigo-700'}`}
+      title={formulaMode ? 'Use a fixed value' : 'Compute from other attributes, e.g. 400 * motor_hp'}
+    >
+      ƒ
+    </button>
+  );
+  return (
+    <span className="inline-flex items-center">
+      {formulaMode
+        ? <FormulaInput value={condition.value} onChange={onChange} />
+        : <LiteralPicker condition={condition} attr={attr} onChange={onChange} />}
+      {toggle}
+    </span>
+  );
+};
+
+const ExpressionEditor: React.FC<ExpressionEditorProps> = ({ expr, attributes, onChange, onRemove }) => {
+  const removeButton = onRemove && (
+    <button onClick={onRemove} className="ml-1 text-gray-400 hover:text-red-600" title="Remove">×</button>
+  );
+
+  if (isNotExpression(expr)) {
+    return (
+      <div className="flex items-start">
+        <button
+          onClick={() => onChange(expr.not)}
+          className="mr-1 px-1.5 py-1 text-xs font-semibold rounded bg-red-100 text-red-700 hover:bg-red-200"
+          title="Remove negation"
+        >
+          NOT
+        </button>
+        <div className="flex-1">
+          <ExpressionEditor expr={expr.not} attributes={attributes} onChange={(inner) => onChange({ not: inner })} />
+        </div>
+        {removeButton}
+      </div>
+    );
+  }
+
+  if (isAndExpression(expr) || isOrExpression(expr)) {
+    const combinator = isAndExpression(expr) ? 'and' : 'or';
+    const children = isAndExpression(expr) ? expr.and : expr.or;
+    const update = (next: RuleExpression[]) =>
+      onChange(combinator === 'and' ? { and: next } : { or: next });
+
+    return (
+      <div className="border-l-2 border-indigo-200 pl-2 space-y-1">
+        <div className="flex items-center space-x-1">
+          <select
+            className={inputClass}
+            value={combinator}
+            onChange={(e) => onChange(e.target.value === 'and' ? { and: children } : { or: children })}
+          >
+            <option value="and">ALL of (AND)</option>
+            <option value="or">ANY of (OR)</option>
+          </select>
+          <button onClick={() => onChange({ not: expr })} className="text-xs text-gray-500 hover:text-indigo-700">Negate</button>
+          {removeButton}
+        </div>
+        {children.map((child, idx) => (
+          <ExpressionEditor
+            key={idx}
+            expr={child}
+            attributes={attributes}
+            onChange={(next) => update(children.map((c, i) => i === idx ? next : c))}
+            onRemove={() => {
+              const rest = children.filter((_, i) => i !== idx);
+              // Collapse a group that is down to one member
+              if (rest.length === 1) onChange(rest[0]);
+              else update(rest);
+            }}
+          />
+        ))}
+        <div className="space-x-2">
+          <button onClick={() => update([...children, newCondition(attributes)])} className="text-xs text-indigo-600 hover:text-indigo-800">+ Condition</button>
+          <button
+            onClick={() => {
+              // Nested groups alternate the combinator, e.g. A AND (B OR C)
+              const members = [newCondition(attributes), newCondition(attributes)];
+              update([...children, combinator === 'and' ? { or: members } : { and: members }]);
+            }}
+            className="text-xs text-indigo-600 hover:text-indigo-800"
+          >
+            + Group
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const attr = attributes.find(a => a.id === expr.attribute);
+  const operators = operatorsFor(attr);
+
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      <select
+        className={inputClass}
+        value={expr.attribute}
+        onChange={(e) => {
+          const next = attributes.find(a => a.id === e.target.value);
+          // E.g. a multi-select takes none of the operators of a single-choice attribute
+          const operator = operatorsFor(next).includes(expr.operator) ? expr.operator : operatorsFor(next)[0];
+          onChange({ ...expr, attribute: e.target.value, operator, value: defaultValueFor(next, operator) });
+        }}
+      >
+        {!attr && <option value={expr.attribute}>{expr.attribute} (unknown)</option>}
+        {attributes.map(a => (
+          <option key={a.id} value={a.id}>{a.name}</option>
+        ))}
+      </select>
+      <select
+        className={inputClass}
+        value={expr.operator}
+        onChange={(e) => {
+          const operator = e.target.value as ConditionOperator;
+          const reshape = valueShape(operator) !== valueShape(expr.operator);
+          onChange({ ...expr, operator, value: reshape ? defaultValueFor(attr, operator) : expr.value });
+        }}
+      >
+        {!operators.includes(expr.operator) && <option value={expr.operator}>{expr.operator} (not applicable)</option>}
+        {operators.map(op => (
+          <option key={op} value={op}>{op}</option>
+        ))}
+      </select>
+      <ValuePicker condition={expr} attr={attr} onChange={(value) => onChange({ ...expr, value })} />
+      <button onClick={() => onChange({ and: [expr, newCondition(attributes)] })} className="text-xs text-indigo-600 hover:text-indigo-800" title="Add another condition">+AND</button>
+      <button onClick={() => onChange({ or: [expr, newCondition(attributes)] })} className="text-xs text-indigo-600 hover:text-indigo-800" title="Add an alternative">+OR</button>
+      <button onClick={() => onChange({ not: expr })} className="text-xs text-gray-500 hover:text-indigo-700" title="Negate">NOT</button>
+      {removeButton}
+    </div>
+  );
+};
+
+export default ExpressionEditor;
@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { ProjectData, ProjectFieldError, ImportMode, ImportConflictPolicy } from '../types';
+import { findImportConflicts, mergeProjects, validateProjectData, CURRENT_FORMAT_VERSION } from '../services/projectFormat';
+
+export interface PendingImport {
+  fileName: string;
+  data: ProjectData | null; // Null when the file could not be parsed at all
+  fromVersion: number;
+  errors: ProjectFieldError[];
+}
+
+interface ImportPreviewProps {
+  pending: PendingImport;
+  current: ProjectData; // The whole open project, so a merge can be checked before it is applied
+  onConfirm: (data: ProjectData, mode: ImportMode, policy: ImportConflictPolicy) => void;
+  onCancel: () => void;
+}
+
+const ImportPreview: React.FC<ImportPreviewProps> = ({ pending, current, onConfirm, onCancel }) => {
+  const [mode, setMode] = useState<ImportMode>('replace');
+  const [policy, setPolicy] = useState<ImportConflictPolicy>({ attributes: 'keep', rules: 'rename' });
+
+  const { data, errors } = pending;
+  const conflicts = data ? findImportConflicts(current, data) : null;
+  const hasConflicts = !!conflicts && Object.values(conflicts).some(ids => ids.length > 0);
+  // Component models follow the attribute policy, cross-item rules the rule policy
+  const modelConflicts = conflicts ? [...conflicts.attributes, ...conflicts.components] : [];
+  const ruleConflicts = conflicts ? [...conflicts.rules, ...conflicts.priceRules, ...conflicts.quoteRules] : [];
+  // The file is valid on its own, but a merge can still orphan its rules, e.g. when the open
+  // project's version of an attribute is kept and lacks an option the imported rules use
+  const mergeErrors = data && errors.length === 0 && mode === 'merge' ? validateProjectData(mergeProjects(current, data, policy)) : [];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/30 p-4">
+      <div className="bg-white rounded-lg shadow-xl border border-gray-200 w-full max-w-2xl max-h-[90vh] overflow-y-auto p-6 text-sm">
+        <h3 className="text-lg font-bold text-gray-900 mb-1">Import {pending.fileName}</h3>
+
+        {errors.length > 0 ? (
+          <>
+            <p className="text-red-700 mb-3">The file cannot be imported. Fix the following and try again:</p>
+            <ul className="mb-4 p-3 rounded border border-red-200 bg-red-50 text-xs text-red-700 space-y-1 max-h-72 overflow-y-auto">
+              {errors.map((err, idx) => (
+                <li key={idx}>
+                  {err.path && <span className="font-mono font-semibold">{err.path}</span>} {err.message}
+                </li>
+              ))}
+            </ul>
+          </>
+        ) : data && (
+          <>
+            <p className="text-gray-600 mb-3">
+              {data.attributes.length} attributes, {data.rules.length} rules, {(data.priceRules || []).length} price rules
+              {(data.drafts || []).length > 0 && `, ${data.drafts!.length} drafts`}
+              {(data.components || []).length > 0 && `, ${data.components!.length} component models`}.
+              {pending.fromVersion < CURRENT_FORMAT_VERSION && (
+                <span className="block text-xs text-indigo-700 mt-1">
+                  Upgraded from format version {pending.fromVersion} to {CURRENT_FORMAT_VERSION}.
+                </span>
+              )}
+            </p>
+
+            <div className="space-y-2 mb-4">
+              <label className="flex items-start">
+                <input type="radio" className="mt-1 mr-2" checked={mode === 'replace'} onChange={() => setMode('replace')} />
+                <span><strong>Replace</strong> the open project with the file's contents.</span>
+              </label>
+              <label className="flex items-start">
+                <input type="radio" className="mt-1 mr-2" checked={mode === 'merge'} onChange={() => setMode('merge')} />
+                <span><strong>Merge</strong> the file's attributes and rules into the open project.</span>
+              </label>
+            </div>
+
+            {mode === 'merge' && hasConflicts && conflicts && (
+              <div className="mb-4 p-3 rounded border border-yellow-200 bg-yellow-50 text-xs text-yellow-900 space-y-2">
+                <strong className="block">Ids that exist in both projects</strong>
+                {modelConflicts.length > 0 && (
+                  <label className="block">
+                    Attributes and components <span className="font-mono">{modelConflicts.join(', ')}</span>:{' '}
+                    <select
+                      className="px-1.5 py-0.5 border border-gray-300 rounded bg-white"
+                      value={policy.attributes}
+                      onChange={(e) => setPolicy({ ...policy, attributes: e.target.value as ImportConflictPolicy['attributes'] })}
+                    >
+                      <option value="keep">keep the open project's</option>
+                      <option value="overwrite">use the imported ones</option>
+                    </select>
+                  </label>
+                )}
+                {ruleConflicts.length > 0 && (
+                  <label className="block">
+                    Rules <span className="font-mono">{ruleConflicts.join(', ')}</span>:{' '}
+                    <select
+                      className="px-1.5 py-0.5 border border-gray-300 rounded bg-white"
+                      value={policy.rules}
+                      onChange={(e) => setPolicy({ ...policy, rules: e.target.value as ImportConflictPolicy['rules'] })}
+                    >
+                      <option value="rename">import under a new id</option>
+                      <option value="keep">keep the open project's</option>
+                      <option value="overwrite">use the imported ones</option>
+                    </select>
+                  </label>
+                )}
+              </div>
+            )}
+
+            {mergeErrors.length > 0 && (
+              <>
+                <p className="text-red-700 mb-2">The merged project would be invalid. Choose other conflict settings or fix the file:</p>
+                <ul className="mb-4 p-3 rounded border border-red-200 bg-red-50 text-xs text-red-700 space-y-1 max-h-48 overflow-y-auto">
+                  {mergeErrors.map((err, idx) => (
+                    <li key={idx}>
+                      {err.path && <span className="font-mono font-semibold">{err.path}</span>} {err.message}
+                    </li>
+                  ))}
+                </ul>
+              </>
+            )}
+          </>
+        )}
+
+        <div className="flex justify-end space-x-2">
+          <button onClick={onCancel} className="px-4 py-2 text-gray-600 hover:text-gray-800 font-medium">Cancel</button>
+          <button
+            onClick={() => data && onConfirm(data, mode, policy)}
+            disabled={!data || errors.length > 0 || mergeErrors.length > 0}
+            className="px-4 py-2 bg-indigo-600 text-white rounded-md font-medium hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {mode === 'merge' ? 'Merge' : 'Replace'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportPreview;
@@ -0,0 +1,96 @@
+import React from 'react';
+import { ProductAttribute, Configuration } from '../types';
+import { formatValue } from '../services/expressions';
+
+interface LineItemEditorProps {
+  attributes: ProductAttribute[];
+  config: Configuration; // The line's own selections
+  derived: Configuration; // The same with assignment rules applied
+  derivedIds: string[];
+  onChange: (config: Configuration) => void;
+}
+
+const inputClass = 'w-full px-2 py-1 border border-gray-300 rounded text-xs bg-white focus:ring-indigo-500 focus:border-indigo-500';
+
+// Compact form for one quote line: one input per attribute of the line's model
+const LineItemEditor: React.FC<LineItemEditorProps> = ({ attributes, config, derived, derivedIds, onChange }) => {
+  const set = (attrId: string, value: any) => {
+    const next = { ...config, [attrId]: value };
+    if (value === '' || (Array.isArray(value) && value.length === 0)) delete next[attrId];
+    onChange(next);
+  };
+
+  const input = (attr: ProductAttribute) => {
+    const value = config[attr.id];
+
+    if (attr.type === 'multi') {
+      const picked: any[] = Array.isArray(value) ? value : [];
+      return (
+        <div className="flex flex-wrap gap-2">
+          {attr.options?.map(opt => (
+            <label key={String(opt.value)} className="inline-flex items-center">
+              <input
+                type="checkbox"
+                className="mr-1"
+                checked={picked.includes(opt.value)}
+                onChange={(e) => set(attr.id, e.target.checked ? [...picked, opt.value] : picked.filter(v => v !== opt.value))}
+              />
+              {opt.label}
+            </label>
+          ))}
+        </div>
+      );
+    }
+    if (attr.options && attr.options.length > 0) {
+      const index = attr.options.findIndex(opt => opt.value === value);
+      return (
+        <select className={inputClass} value={index} onChange={(e) => set(attr.id, e.target.value === '-1' ? '' : attr.options![Number(e.target.value)].value)}>
+          <option value={-1}>{attr.required ? '-- Select --' : '-- None --'}</option>
+          {attr.options.map((opt, i) => (
+            <option key={String(opt.value)} value={i}>{opt.label}</option>
+          ))}
+        </select>
+      );
+    }
+    if (attr.type === 'boolean') {
+      return (
+        <select className={inputClass} value={value === undefined ? '' : String(value)} onChange={(e) => set(attr.id, e.target.value === '' ? '' : e.target.value === 'true')}>
+          <option value="">-- None --</option>
+          <option value="true">Yes</option>
+          <option value="false">No</option>
+        </select>
+      );
+    }
+    const isNumeric = attr.type === 'number' || attr.type === 'quantity';
+    return (
+      <input
+        type={isNumeric ? 'number' : 'text'}
+        min={attr.min}
+        max={attr.max}
+        step={attr.type === 'quantity' ? 1 : attr.step ?? 'any'}
+        className={inputClass}
+        value={value ?? ''}
+        onChange={(e) => set(attr.id, isNumeric && e.target.value !== '' ? Number(e.target.value) : e.target.value)}
+      />
+    );
+  };
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 text-xs">
+      {attributes.map(attr => (
+        <label key={attr.id} className="block">
+          <span className="text-gray-600">
+            {attr.name}
+            {attr.required && <span className="text-red-500 ml-0.5">*</span>}
+            {attr.unit && <span className="text-gray-400"> ({attr.unit})</span>}
+          </span>
+          {derivedIds.includes(attr.id)
+            ? <div className="px-2 py-1 rounded bg-gray-100 text-gray-600" title="Computed by an assignment rule">{formatValue(derived[attr.id])}</div>
+            : input(attr)}
+        </label>
+      ))}
+    </div>
+  );
+};
+
+export default LineItemEditor;
@@ -1,11 +1,12 @@
 import React from 'react';
 
 interface NavbarProps {
-  currentTab: 'configure' | 'author';
-  onTabChange: (tab: 'configure' | 'author') => void;
+  currentTab: 'configure' | 'quote' | 'author';
+  onTabChange: (tab: 'configure' | 'quote' | 'author') => void;
+  children?: React.ReactNode; // Right-hand controls, e.g. the project switcher
 }
 
-const Navbar: React.FC<NavbarProps> = ({ currentTab, onTabChange }) => {
+const Navbar: React.FC<NavbarProps> = ({ currentTab, onTabChange, children }) => {
   return (
     <nav className="bg-white border-b border-gray-200 sticky top-0 z-50">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -25,6 +26,16 @@ const Navbar: React.FC<NavbarProps> = ({ currentTab, onTabChange }) => {
               >
                 Configurator
               </button>
+              <button
+                onClick={() => onTabChange('quote')}
+                className={`${
+                  currentTab === 'quote'
+                    ? 'border-indigo-500 text-gray-900'
+                    : 'border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700'
+                } inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium h-full transition-colors`}
+              >
+                Quote
+              </button>
               <button
                 onClick={() => onTabChange('author')}
                 className={`${
@@ -37,7 +48,8 @@ const Navbar: React.FC<NavbarProps> = ({ currentTab, onTabChange }) => {
               </button>
             </div>
           </div>
-          <div className="flex items-center">
+          <div className="flex items-center space-x-4">
+            {children}
             <span className="text-xs text-gray-400 bg-gray-100 px-2 py-1 rounded-full">v1.0.0-beta</span>
           </div>
         </div>
@@ -0,0 +1,63 @@
+import React from 'react';
+import { Workspace } from '../services/storage';
+
+interface ProjectSwitcherProps {
+  workspace: Workspace;
+  saveFailed?: boolean;
+  onSelect: (id: string) => void;
+  onCreate: (name: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const ProjectSwitcher: React.FC<ProjectSwitcherProps> = ({ workspace, saveFailed, onSelect, onCreate, onRename, onDuplicate, onDelete }) => {
+  const active = workspace.projects.find(p => p.id === workspace.activeId);
+
+  const handleCreate = () => {
+    const name = prompt('Name of the new product model:', 'Untitled project');
+    if (name?.trim()) onCreate(name.trim());
+  };
+
+  const handleRename = () => {
+    if (!active) return;
+    const name = prompt('Rename project:', active.name);
+    if (name?.trim()) onRename(active.id, name.trim());
+  };
+
+  const handleDelete = () => {
+    if (!active) return;
+    if (confirm(`Delete "${active.name}"? Its attributes, rules and drafts are removed from this browser.`)) {
+      onDelete(active.id);
+    }
+  };
+
+  const buttonClass = 'text-xs text-gray-500 hover:text-indigo-700 font-medium';
+
+  return (
+    <div className="flex items-center space-x-2">
+      <select
+        value={workspace.activeId}
+        onChange={(e) => onSelect(e.target.value)}
+        className="max-w-[12rem] px-2 py-1 border border-gray-300 rounded-md text-sm bg-white focus:ring-indigo-500 focus:border-indigo-500"
+        title="Switch project"
+      >
+        {workspace.projects.map(p => (
+          <option key={p.id} value={p.id}>{p.name}</option>
+        ))}
+      </select>
+      <button onClick={handleCreate} className={buttonClass}>New</button>
+      <button onClick={handleRename} className={buttonClass}>Rename</button>
+      <button onClick={() => active && onDuplicate(active.id)} className={buttonClass}>Duplicate</button>
+      <button onClick={handleDelete} className="text-xs text-gray-500 hover:text-red-600 font-medium">Delete</button>
+      <span
+        className={`text-xs ${saveFailed ? 'text-red-600' : 'text-gray-400'}`}
+        title={saveFailed ? 'Browser storage is full or unavailable; export the project to keep your changes' : 'Changes are saved in this browser'}
+      >
+        {saveFailed ? 'Not saved' : 'Saved locally'}
+      </span>
+    </div>
+  );
+};
+
+export default ProjectSwitcher;
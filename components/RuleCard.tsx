@@ -1,53 +1,258 @@
-import React from 'react';
-import { Rule } from '../types';
+import React, { useState } from 'react';
+import { Rule, ProductAttribute, AuditEvent } from '../types';
+import { formatExpression, formatValue } from '../services/expressions';
+import { describeChange } from '../services/audit';
+import { validateRule } from '../services/ruleSchema';
+import ExpressionEditor, { newCondition, ValuePicker, defaultValueFor } from './ExpressionEditor';
 
 interface RuleCardProps {
   rule: Rule;
+  attributes?: ProductAttribute[];
   onApprove?: (id: string) => void;
   onDelete?: (id: string) => void;
+  onSave?: (rule: Rule) => void;
+  onToggleActive?: (id: string) => void;
   isDraft?: boolean;
+  issues?: string[]; // Schema problems; a draft with issues cannot be approved, an active rule not saved
+  history?: AuditEvent[]; // Audit events for this rule, oldest first
 }
 
-const RuleCard: React.FC<RuleCardProps> = ({ rule, onApprove, onDelete, isDraft }) => {
+const RuleCard: React.FC<RuleCardProps> = ({ rule, attributes = [], onApprove, onDelete, onSave, onToggleActive, isDraft, issues = [], history = [] }) => {
+  const [editing, setEditing] = useState<Rule | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showClause, setShowClause] = useState(false);
+  const isInactive = !isDraft && !rule.approved;
+
+  // Only implications carry a consequence and only assignments an assigned value
+  const normalize = (draft: Rule): Rule => {
+    const fallback = newCondition(attributes);
+    return {
+      ...draft,
+      consequence: draft.type === 'implication' ? (draft.consequence || fallback) : undefined,
+      assignment: draft.type === 'assignment' ? (draft.assignment || { attribute: fallback.attribute, value: fallback.value }) : undefined
+    };
+  };
+
+  // A draft may be saved unfinished; a rule in the knowledge base goes live as soon as it is saved
+  const editIssues = editing && !isDraft ? validateRule(normalize(editing), attributes) : [];
+
+  const handleSave = () => {
+    if (!editing || editIssues.length > 0) return;
+    onSave?.(normalize(editing));
+    setEditing(null);
+  };
+
+  const badge = isDraft
+    ? { label: 'Draft', className: 'bg-yellow-200 text-yellow-800' }
+    : isInactive
+      ? { label: 'Inactive', className: 'bg-gray-200 text-gray-600' }
+      : { label: 'Active', className: 'bg-green-100 text-green-800' };
+
   return (
-    <div className={`p-4 rounded-lg border ${isDraft ? 'border-yellow-200 bg-yellow-50' : 'border-gray-200 bg-white'} shadow-sm mb-3 transition-all hover:shadow-md`}>
+    <div className={`p-4 rounded-lg border ${isDraft ? 'border-yellow-200 bg-yellow-50' : isInactive ? 'border-gray-200 bg-gray-50 opacity-75' : 'border-gray-200 bg-white'} shadow-sm mb-3 transition-all hover:shadow-md`}>
       <div className="flex justify-between items-start mb-2">
         <div>
-          <span className={`text-xs font-semibold px-2 py-0.5 rounded ${isDraft ? 'bg-yellow-200 text-yellow-800' : 'bg-green-100 text-green-800'}`}>
-            {isDraft ? 'Draft' : 'Active'}
+          <span className={`text-xs font-semibold px-2 py-0.5 rounded ${badge.className}`}>
+            {badge.label}
           </span>
+          {rule.strength === 'soft' && (
+            <span className="ml-1 text-xs font-semibold px-2 py-0.5 rounded bg-yellow-100 text-yellow-800" title="Soft rule: only produces a warning">
+              Soft
+            </span>
+          )}
           <span className="ml-2 text-xs text-gray-500 font-mono">{rule.id}</span>
         </div>
         <div className="text-xs text-gray-400">
-          Confidence: {(rule.confidence * 100).toFixed(0)}%
+          Confidence: {(rule.confidence * 100).toFixed(0)}% · Priority: {rule.priority}
         </div>
       </div>
-      
-      <p className="text-sm text-gray-800 font-medium mb-2">{rule.natural_text}</p>
-      
-      <div className="bg-gray-50 p-2 rounded text-xs font-mono text-gray-600 mb-3 overflow-x-auto">
-        <div>IF {rule.condition.attribute} {rule.condition.operator} {rule.condition.value}</div>
-        {rule.consequence && (
-            <div>THEN {rule.consequence.attribute} {rule.consequence.operator} {rule.consequence.value}</div>
-        )}
-      </div>
 
-      <div className="flex justify-between items-center text-xs text-gray-500">
-        <span>Source: {rule.source_doc || 'Manual'}</span>
-        {isDraft && (
-          <div className="space-x-2">
-             <button 
-                onClick={() => onDelete?.(rule.id)}
-                className="text-red-600 hover:text-red-800 font-medium"
+      {editing ? (
+        <div className="space-y-3 mb-3">
+          <textarea
+            className="w-full p-2 border border-gray-300 rounded text-sm focus:ring-indigo-500 focus:border-indigo-500"
+            rows={2}
+            value={editing.natural_text}
+            onChange={(e) => setEditing({ ...editing, natural_text: e.target.value })}
+          />
+          <div className="flex items-center space-x-3 text-xs text-gray-600">
+            <label>
+              Type{' '}
+              <select
+                className="px-1.5 py-1 border border-gray-300 rounded bg-white"
+                value={editing.type}
+                onChange={(e) => setEditing({ ...editing, type: e.target.value as Rule['type'] })}
+              >
+                <option value="implication">Implication (IF / THEN)</option>
+                <option value="exclusion">Exclusion (IF → invalid)</option>
+                <option value="assignment">Assignment (IF → attribute := value)</option>
+              </select>
+            </label>
+            <label>
+              Strength{' '}
+              <select
+                className="px-1.5 py-1 border border-gray-300 rounded bg-white"
+                value={editing.strength || 'hard'}
+                onChange={(e) => setEditing({ ...editing, strength: e.target.value as Rule['strength'] })}
+              >
+                <option value="hard">Hard (must hold)</option>
+                <option value="soft">Soft (warn only)</option>
+              </select>
+            </label>
+            <label>
+              Priority{' '}
+              <input
+                type="number"
+                className="w-16 px-1.5 py-1 border border-gray-300 rounded"
+                value={editing.priority}
+                onChange={(e) => setEditing({ ...editing, priority: Number(e.target.value) })}
+              />
+            </label>
+          </div>
+          <div className="bg-gray-50 p-2 rounded text-xs space-y-2">
+            <div>
+              <span className="font-mono font-semibold text-gray-500">IF</span>
+              <ExpressionEditor expr={editing.condition || newCondition(attributes)} attributes={attributes} onChange={(condition) => setEditing({ ...editing, condition })} />
+            </div>
+            {editing.type === 'implication' && (
+              <div>
+                <span className="font-mono font-semibold text-gray-500">THEN</span>
+                <ExpressionEditor
+                  expr={editing.consequence || newCondition(attributes)}
+                  attributes={attributes}
+                  onChange={(consequence) => setEditing({ ...editing, consequence })}
+                />
+              </div>
+            )}
+            {editing.type === 'assignment' && (() => {
+              const assignment = editing.assignment || { attribute: newCondition(attributes).attribute, value: newCondition(attributes).value };
+              const target = attributes.find(a => a.id === assignment.attribute);
+              return (
+                <div className="flex flex-wrap items-center gap-1">
+                  <span className="font-mono font-semibold text-gray-500">SET</span>
+                  <select
+                    className="px-1.5 py-1 border border-gray-300 rounded text-xs bg-white"
+                    value={assignment.attribute}
+                    onChange={(e) => setEditing({ ...editing, assignment: { attribute: e.target.value, value: defaultValueFor(attributes.find(a => a.id === e.target.value)) } })}
+                  >
+                    {!target && <option value={assignment.attribute}>{assignment.attribute} (unknown)</option>}
+                    {attributes.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                  </select>
+                  <span className="font-mono text-gray-500">:=</span>
+                  <ValuePicker
+                    // A multi-select is assigned its whole list of picks
+                    condition={{ attribute: assignment.attribute, operator: target?.type === 'multi' ? 'containsAny' : '==', value: assignment.value }}
+                    attr={target}
+                    onChange={(value) => setEditing({ ...editing, assignment: { ...assignment, value } })}
+                  />
+                </div>
+              );
+            })()}
+          </div>
+          {editIssues.length > 0 && (
+            <ul className="p-2 rounded border border-red-200 bg-red-50 text-xs text-red-700 list-disc list-inside space-y-0.5">
+              {editIssues.map((issue, idx) => <li key={idx}>{issue}</li>)}
+            </ul>
+          )}
+          <div className="flex justify-end space-x-2 text-xs">
+            <button onClick={() => setEditing(null)} className="text-gray-500 hover:text-gray-700 font-medium">Cancel</button>
+            <button
+              onClick={handleSave}
+              disabled={editIssues.length > 0}
+              title={editIssues.length > 0 ? 'Fix the problems above before saving' : undefined}
+              className="bg-indigo-600 text-white px-3 py-1 rounded hover:bg-indigo-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
             >
-              Discard
+              Save
             </button>
-            <button 
-                onClick={() => onApprove?.(rule.id)}
-                className="bg-indigo-600 text-white px-3 py-1 rounded hover:bg-indigo-700 transition-colors"
-            >
-              Approve
+          </div>
+        </div>
+      ) : (
+        <>
+          <p className="text-sm text-gray-800 font-medium mb-2">{rule.natural_text}</p>
+
+          <div className="bg-gray-50 p-2 rounded text-xs font-mono text-gray-600 mb-3 overflow-x-auto">
+            <div>IF {rule.condition ? formatExpression(rule.condition) : '(missing)'}</div>
+            {rule.consequence && (
+                <div>THEN {formatExpression(rule.consequence)}</div>
+            )}
+            {rule.assignment && (
+                <div>THEN {rule.assignment.attribute} := {formatValue(rule.assignment.value)}</div>
+            )}
+          </div>
+        </>
+      )}
+
+      {issues.length > 0 && !(editing && !isDraft) && (
+        <ul className="mb-3 p-2 rounded border border-red-200 bg-red-50 text-xs text-red-700 list-disc list-inside space-y-0.5">
+          {issues.map((issue, idx) => <li key={idx}>{issue}</li>)}
+        </ul>
+      )}
+
+      {showHistory && (
+        <ol className="mb-3 p-2 rounded border border-gray-200 bg-white text-xs text-gray-600 space-y-1.5 max-h-48 overflow-y-auto">
+          {history.length === 0 && <li className="text-gray-400">No recorded changes.</li>}
+          {[...history].reverse().map(event => (
+            <li key={event.id}>
+              <span className="font-semibold capitalize">{event.action}</span>
+              {event.target === 'draft' && event.action !== 'extracted' && event.action !== 'discarded' && ' (draft)'}
+              {' '}by {event.actor} · {new Date(event.timestamp).toLocaleString()}
+              {event.source_doc && <span className="text-gray-400"> · {event.source_doc}</span>}
+              {describeChange(event).map((change, idx) => (
+                <div key={idx} className="pl-2 font-mono text-gray-500 break-words">{change}</div>
+              ))}
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {showClause && rule.source_clause && (
+        <blockquote className="mb-3 p-2 rounded border-l-4 border-indigo-200 bg-white text-xs text-gray-600 whitespace-pre-wrap max-h-48 overflow-y-auto">
+          {rule.source_clause}
+        </blockquote>
+      )}
+
+      <div className="flex justify-between items-center text-xs text-gray-500">
+        <span>
+          Source: {rule.source_doc || 'Manual'}
+          {rule.source_clause && (
+            <button onClick={() => setShowClause(!showClause)} className="ml-2 text-indigo-600 hover:text-indigo-800 font-medium">
+              {showClause ? 'Hide clause' : 'Show clause'}
+            </button>
+          )}
+        </span>
+        {!editing && (
+          <div className="space-x-2">
+            <button onClick={() => setShowHistory(!showHistory)} className="text-gray-500 hover:text-gray-700 font-medium">
+              History ({history.length})
             </button>
+            {onSave && (
+              <button onClick={() => setEditing(rule)} className="text-indigo-600 hover:text-indigo-800 font-medium">
+                Edit
+              </button>
+            )}
+            {!isDraft && onToggleActive && (
+              <button onClick={() => onToggleActive(rule.id)} className="text-gray-600 hover:text-gray-800 font-medium">
+                {isInactive ? 'Activate' : 'Deactivate'}
+              </button>
+            )}
+            {onDelete && (
+              <button
+                  onClick={() => onDelete(rule.id)}
+                  className="text-red-600 hover:text-red-800 font-medium"
+              >
+                {isDraft ? 'Discard' : 'Delete'}
+              </button>
+            )}
+            {isDraft && (
+              <button
+                  onClick={() => onApprove?.(rule.id)}
+                  disabled={issues.length > 0}
+                  title={issues.length > 0 ? 'Fix the problems above before approving' : undefined}
+                  className="bg-indigo-600 text-white px-3 py-1 rounded hover:bg-indigo-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Approve
+              </button>
+            )}
           </div>
         )}
       </div>
@@ -55,4 +260,4 @@ const RuleCard: React.FC<RuleCardProps> = ({ rule, onApprove, onDelete, isDraft
   );
 };
 
-export default RuleCard;
\ No newline at end of file
+export default RuleCard;
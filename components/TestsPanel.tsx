@@ -0,0 +1,88 @@
+import React from 'react';
+import { GoldenTest, GoldenTestResult } from '../types';
+
+interface TestsPanelProps {
+  tests: GoldenTest[];
+  results: GoldenTestResult[]; // Results of both engines; Z3 ones may still be missing while it runs
+  isRunningZ3?: boolean;
+  onUpdate: (test: GoldenTest) => void;
+  onDelete: (id: string) => void;
+}
+
+const ResultBadge: React.FC<{ label: string; result?: GoldenTestResult; pending?: boolean }> = ({ label, result, pending }) => {
+  if (!result) {
+    return <span className="px-1.5 py-0.5 rounded bg-gray-100 text-gray-400">{label} {pending ? '…' : '–'}</span>;
+  }
+  return (
+    <span
+      className={`px-1.5 py-0.5 rounded ${result.passed ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-700'}`}
+      title={result.message}
+    >
+      {label} {result.passed ? '✓' : '✗'}
+    </span>
+  );
+};
+
+const TestsPanel: React.FC<TestsPanelProps> = ({ tests, results, isRunningZ3, onUpdate, onDelete }) => {
+  const resultFor = (id: string, engine: GoldenTestResult['engine']) =>
+    results.find(r => r.test_id === id && r.engine === engine);
+  const failing = tests.filter(t => results.some(r => r.test_id === t.id && !r.passed)).length;
+
+  return (
+    <div className="mb-4 bg-white rounded-lg border border-gray-200 p-4 text-xs">
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="text-sm font-semibold text-gray-700">Tests</h3>
+        <span className={failing > 0 ? 'text-red-600 font-medium' : 'text-gray-400'}>
+          {tests.length === 0 ? '' : failing > 0 ? `${failing} of ${tests.length} failing` : `${tests.length} passing`}
+          {isRunningZ3 && ' · running Z3...'}
+        </span>
+      </div>
+      {tests.length === 0 ? (
+        <p className="text-gray-400">No test configurations yet. Use "Save as Test" in the Configurator to record one.</p>
+      ) : (
+        <ul className="space-y-2 max-h-56 overflow-y-auto">
+          {tests.map(test => {
+            const det = resultFor(test.id, 'deterministic');
+            const z3 = resultFor(test.id, 'z3');
+            const failure = [det, z3].find(r => r && !r.passed);
+            return (
+              <li key={test.id} className="border-b border-gray-100 pb-2 last:border-0">
+                <div className="flex justify-between items-center">
+                  <span className="font-medium text-gray-800" title={JSON.stringify(test.config)}>{test.name}</span>
+                  <span className="flex items-center space-x-1">
+                    <ResultBadge label="Std" result={det} />
+                    <ResultBadge label="Z3" result={z3} pending={isRunningZ3} />
+                    <button onClick={() => onDelete(test.id)} className="ml-1 text-gray-400 hover:text-red-600" title="Delete test">×</button>
+                  </span>
+                </div>
+                <div className="mt-1 flex items-center space-x-2 text-gray-500">
+                  <span>Expect</span>
+                  <select
+                    className="px-1 py-0.5 border border-gray-300 rounded bg-white"
+                    value={test.expect}
+                    onChange={(e) => onUpdate({ ...test, expect: e.target.value as GoldenTest['expect'] })}
+                  >
+                    <option value="valid">valid</option>
+                    <option value="invalid">invalid</option>
+                  </select>
+                  {test.expect === 'invalid' && (
+                    <input
+                      className="flex-1 min-w-0 px-1.5 py-0.5 border border-gray-300 rounded font-mono"
+                      placeholder="failing rule ids, e.g. rule-001"
+                      defaultValue={(test.expectedRuleIds || []).join(', ')}
+                      // Committed on blur so a half-typed list is not reformatted under the cursor
+                      onBlur={(e) => onUpdate({ ...test, expectedRuleIds: e.target.value.split(',').map(v => v.trim()).filter(Boolean) })}
+                    />
+                  )}
+                </div>
+                {failure && <div className="mt-1 text-red-600">{failure.message}</div>}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default TestsPanel;
@@ -1,43 +1,254 @@
-import React, { useState } from 'react';
-import { Rule, ProductAttribute } from '../types';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Rule, ProductAttribute, ConsistencyReport, ConsistencyIssue, AuditEvent, GoldenTest, GoldenTestResult } from '../types';
 import { extractRulesFromText } from '../services/geminiService';
+import { readDocument, chunkDocument } from '../services/documents';
+import { z3Engine } from '../services/z3WorkerEngine';
+import { validateRule, findOrphanedRules } from '../services/ruleSchema';
+import { createAuditEvent, diffRules, rulesAsOf } from '../services/audit';
+import { runGoldenTestsDeterministic, runGoldenTestsZ3 } from '../services/goldenTests';
 import RuleCard from '../components/RuleCard';
+import AttributeEditor from '../components/AttributeEditor';
+import TestsPanel from '../components/TestsPanel';
 
 interface AuthoringProps {
   rules: Rule[];
   setRules: React.Dispatch<React.SetStateAction<Rule[]>>;
   attributes: ProductAttribute[];
+  setAttributes: React.Dispatch<React.SetStateAction<ProductAttribute[]>>;
+  drafts: Rule[]; // Unreviewed extractions live with the project so they survive a reload
+  setDrafts: React.Dispatch<React.SetStateAction<Rule[]>>;
+  auditLog: AuditEvent[];
+  onAudit: (events: AuditEvent[]) => void;
+  actor: string; // Recorded as "who" on every audit event
+  onActorChange: (name: string) => void;
+  goldenTests: GoldenTest[];
+  setGoldenTests: React.Dispatch<React.SetStateAction<GoldenTest[]>>;
 }
 
-const Authoring: React.FC<AuthoringProps> = ({ rules, setRules, attributes }) => {
+// Sentinel for the "add attribute" form in editingAttrId
+const NEW_ATTRIBUTE = '__new__';
+
+const Authoring: React.FC<AuthoringProps> = ({ rules, setRules, attributes, setAttributes, drafts, setDrafts, auditLog, onAudit, actor, onActorChange, goldenTests, setGoldenTests }) => {
   const [inputText, setInputText] = useState('');
+  const [sourceDoc, setSourceDoc] = useState<string | null>(null); // File name of an uploaded document
+  const [uploadError, setUploadError] = useState<string | null>(null);
   const [isExtracting, setIsExtracting] = useState(false);
-  const [drafts, setDrafts] = useState<Rule[]>([]);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const documentInputRef = useRef<HTMLInputElement>(null);
+  const clauseCount = useMemo(
+    () => sourceDoc ? chunkDocument(inputText).reduce((n, chunk) => n + chunk.clauses.length, 0) : 0,
+    [inputText, sourceDoc]
+  );
+  const [report, setReport] = useState<ConsistencyReport | null>(null);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [editingAttrId, setEditingAttrId] = useState<string | null>(null);
+  const [restorePoint, setRestorePoint] = useState('');
+  const [z3TestResults, setZ3TestResults] = useState<GoldenTestResult[]>([]);
+  const [isTestingZ3, setIsTestingZ3] = useState(false);
+
+  // Re-analyze the active knowledge base whenever rules or the model change
+  useEffect(() => {
+    let cancelled = false;
+    setIsAnalyzing(true);
+    z3Engine.analyze(rules, attributes)
+      .then(result => { if (!cancelled) setReport(result); })
+      .catch(err => console.error("Knowledge base analysis failed", err))
+      .finally(() => { if (!cancelled) setIsAnalyzing(false); });
+    return () => { cancelled = true; };
+  }, [rules, attributes]);
+
+  // Golden tests: the deterministic engine reruns on every render, Z3 in the background
+  const deterministicTestResults = runGoldenTestsDeterministic(goldenTests, rules, attributes);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsTestingZ3(true);
+    setZ3TestResults([]);
+    runGoldenTestsZ3(goldenTests, rules, attributes, z3Engine)
+      .then(results => { if (!cancelled) setZ3TestResults(results); })
+      .finally(() => { if (!cancelled) setIsTestingZ3(false); });
+    return () => { cancelled = true; };
+  }, [goldenTests, rules, attributes]);
+
+  const handleDocumentUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setUploadError(null);
+    try {
+      setInputText(await readDocument(file));
+      setSourceDoc(file.name);
+    } catch (err) {
+      console.error("Document upload failed", err);
+      setUploadError(err instanceof Error ? err.message : String(err));
+    }
+  };
 
+  // The text is split into clauses and extracted chunk by chunk, so long documents fit the
+  // prompt and every draft points at the passage it came from. Drafts appear as chunks finish.
   const handleIngest = async () => {
     if (!inputText.trim()) return;
+    const chunks = chunkDocument(inputText);
+    const doc = sourceDoc || 'pasted_text';
     setIsExtracting(true);
+    setUploadError(null);
+    let i = 0;
     try {
-      const extracted = await extractRulesFromText(inputText, attributes);
-      setDrafts(prev => [...extracted, ...prev]);
+      for (; i < chunks.length; i++) {
+        setProgress({ done: i, total: chunks.length });
+        const extracted = await extractRulesFromText(chunks[i].text, attributes, { doc, clauses: chunks[i].clauses });
+        setDrafts(prev => [...extracted, ...prev]);
+        onAudit(extracted.map(d => createAuditEvent('extracted', 'draft', actor, undefined, d)));
+      }
+    } catch (err) {
+      // Drafts from the chunks already done stay in place
+      console.error("Rule extraction failed", err);
+      const reason = err instanceof Error ? err.message : String(err);
+      setUploadError(`Extraction stopped at part ${i + 1} of ${chunks.length}: ${reason}`);
     } finally {
       setIsExtracting(false);
+      setProgress(null);
     }
   };
 
-  const handleApprove = (id: string) => {
+  const handleApprove = async (id: string) => {
     const draft = drafts.find(d => d.id === id);
-    if (draft) {
-      setRules(prev => [...prev, { ...draft, approved: true }]);
-      setDrafts(prev => prev.filter(d => d.id !== id));
+    if (!draft || validateRule(draft, attributes).length > 0) return;
+
+    const approved = { ...draft, approved: true };
+
+    // Check the draft against the existing knowledge base before it goes live
+    let introduced: ConsistencyIssue[] = [];
+    try {
+      const candidate = await z3Engine.analyze([...rules, approved], attributes);
+      introduced = candidate.issues.filter(issue => issue.rule_ids.includes(id));
+    } catch (err) {
+      console.error("Pre-approval analysis failed", err);
+    }
+
+    // Known-good (or known-bad) configurations whose verdict the draft would change
+    const broken = runGoldenTestsDeterministic(goldenTests, [...rules, approved], attributes)
+      .filter(r => !r.passed && deterministicTestResults.some(prev => prev.test_id === r.test_id && prev.passed));
+
+    const problems = [
+      ...introduced.map(issue => issue.message),
+      ...broken.map(r => `Test "${goldenTests.find(t => t.id === r.test_id)?.name}" would fail: ${r.message}`)
+    ];
+    if (problems.length > 0) {
+      const summary = problems.map(p => `- ${p}`).join('\n');
+      if (!window.confirm(`Approving ${id} causes these problems:\n${summary}\n\nApprove anyway?`)) return;
     }
+
+    setRules(prev => [...prev, approved]);
+    setDrafts(prev => prev.filter(d => d.id !== id));
+    onAudit([createAuditEvent('approved', 'rule', actor, undefined, approved)]);
   };
 
   const handleDiscard = (id: string) => {
+    const draft = drafts.find(d => d.id === id);
     setDrafts(prev => prev.filter(d => d.id !== id));
+    if (draft) onAudit([createAuditEvent('discarded', 'draft', actor, draft, undefined)]);
+  };
+
+  const handleSaveDraft = (updated: Rule) => {
+    const previous = drafts.find(d => d.id === updated.id);
+    setDrafts(prev => prev.map(d => d.id === updated.id ? updated : d));
+    onAudit([createAuditEvent('edited', 'draft', actor, previous, updated)]);
+  };
+
+  // Saved rules go live at once, so one the schema rejects is never stored
+  const handleSaveRule = (updated: Rule) => {
+    const problems = validateRule(updated, attributes);
+    if (problems.length > 0) {
+      alert(`Rule ${updated.id} was not saved:\n${problems.map(p => `- ${p}`).join('\n')}`);
+      return;
+    }
+    const previous = rules.find(r => r.id === updated.id);
+    setRules(prev => prev.map(r => r.id === updated.id ? updated : r));
+    onAudit([createAuditEvent('edited', 'rule', actor, previous, updated)]);
+  };
+
+  // Inactive rules stay in the knowledge base unapproved, so both engines skip them
+  const handleToggleActive = (id: string) => {
+    const rule = rules.find(r => r.id === id);
+    if (!rule) return;
+    const toggled = { ...rule, approved: !rule.approved };
+    setRules(prev => prev.map(r => r.id === id ? toggled : r));
+    onAudit([createAuditEvent(toggled.approved ? 'activated' : 'deactivated', 'rule', actor, rule, toggled)]);
+  };
+
+  const handleDeleteRule = (id: string) => {
+    const rule = rules.find(r => r.id === id);
+    if (!rule || !window.confirm(`Delete rule ${id}? It can be brought back by restoring an earlier point in the history.`)) return;
+    setRules(prev => prev.filter(r => r.id !== id));
+    onAudit([createAuditEvent('deleted', 'rule', actor, rule, undefined)]);
+  };
+
+  // Rolls the knowledge base back to just after the chosen event. The rollback is itself logged,
+  // so it can be undone the same way.
+  const handleRestore = () => {
+    const event = auditLog.find(e => e.id === restorePoint);
+    if (!event) return;
+    const restored = rulesAsOf(rules, auditLog, event.id);
+    const changes = diffRules(rules, restored, 'restored', actor);
+    if (changes.length === 0) {
+      alert('The knowledge base already matches that point.');
+      return;
+    }
+    if (!window.confirm(`Restore the knowledge base as of ${new Date(event.timestamp).toLocaleString()}? ${changes.length} rule(s) will change.`)) return;
+    setRules(restored);
+    onAudit(changes);
+    setRestorePoint('');
+  };
+
+  const handleExportAuditLog = () => {
+    const blob = new Blob([JSON.stringify(auditLog, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `cpq-audit-log-${new Date().getTime()}.json`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  // Model changes that break existing rules or drafts need an explicit confirmation
+  const confirmModelChange = (next: ProductAttribute[]): boolean => {
+    const orphaned = findOrphanedRules([...rules, ...drafts], attributes, next);
+    if (orphaned.length === 0) return true;
+    return window.confirm(
+      `This change would orphan ${orphaned.length} rule(s) that refer to removed attributes or option values:\n` +
+      orphaned.map(r => `- ${r.id}: ${r.natural_text}`).join('\n') +
+      `\n\nApply anyway?`
+    );
   };
 
+  const handleSaveAttribute = (updated: ProductAttribute) => {
+    const next = attributes.map(a => a.id === updated.id ? updated : a);
+    if (!confirmModelChange(next)) return;
+    setAttributes(next);
+    setEditingAttrId(null);
+  };
+
+  const handleDeleteAttribute = (id: string) => {
+    const next = attributes.filter(a => a.id !== id);
+    if (!confirmModelChange(next)) return;
+    setAttributes(next);
+  };
+
+  const handleMoveAttribute = (index: number, direction: -1 | 1) => {
+    const next = [...attributes];
+    const [moved] = next.splice(index, 1);
+    next.splice(index + direction, 0, moved);
+    setAttributes(next);
+  };
+
+  const historyOf = (id: string) => auditLog.filter(e => e.rule_id === id);
+  const restorePoints = auditLog.filter(e => e.target === 'rule').reverse();
+
   const activeRules = rules.filter(r => r.approved);
+  const inactiveRules = rules.filter(r => !r.approved);
 
   return (
     <div className="max-w-7xl mx-auto px-4 py-8 grid grid-cols-1 lg:grid-cols-2 gap-8 h-[calc(100vh-4rem)]">
@@ -50,15 +261,42 @@ const Authoring: React.FC<AuthoringProps> = ({ rules, setRules, attributes }) =>
             Ingest Requirements
           </h2>
           <p className="text-sm text-gray-500 mb-4">
-            Paste product requirement text below. The LLM will parse it into structured logical rules.
+            Paste product requirement text below or upload a document (.txt, .md, .pdf, .docx). The text is split into
+            clauses and the LLM parses them into structured logical rules, each linked to its source passage.
           </p>
+          {(sourceDoc || uploadError) && (
+            <div className="mb-2 text-xs">
+              {uploadError ? (
+                <span className="text-red-600">{uploadError}</span>
+              ) : (
+                <span className="inline-flex items-center bg-indigo-50 text-indigo-700 px-2 py-0.5 rounded-full">
+                  {sourceDoc} · {clauseCount} clauses
+                  <button onClick={() => { setSourceDoc(null); setInputText(''); }} className="ml-1 text-indigo-400 hover:text-indigo-700" title="Clear document">×</button>
+                </span>
+              )}
+            </div>
+          )}
           <textarea
             className="w-full h-48 p-3 border border-gray-300 rounded-md focus:ring-indigo-500 focus:border-indigo-500 text-sm font-mono"
             placeholder={`Example: If the system is operating in a Marine environment, it must use the ACM-600 Cooling Unit. Valid attributes: ${attributes.map(a => a.name).join(', ')}`}
             value={inputText}
             onChange={(e) => setInputText(e.target.value)}
           />
-          <div className="mt-4 flex justify-end">
+          <div className="mt-4 flex justify-end space-x-2">
+            <button
+              onClick={() => documentInputRef.current?.click()}
+              disabled={isExtracting}
+              className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-md text-sm font-medium hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+            >
+              Upload Document
+            </button>
+            <input
+              type="file"
+              ref={documentInputRef}
+              onChange={handleDocumentUpload}
+              className="hidden"
+              accept=".txt,.md,.markdown,.pdf,.docx"
+            />
             <button
               onClick={handleIngest}
               disabled={isExtracting || !inputText.trim()}
@@ -67,31 +305,72 @@ const Authoring: React.FC<AuthoringProps> = ({ rules, setRules, attributes }) =>
               {isExtracting ? (
                 <>
                   <svg className="animate-spin -ml-1 mr-2 h-4 w-4 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24"><circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle><path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path></svg>
-                  Analysing...
+                  {progress && progress.total > 1 ? `Analysing ${progress.done + 1}/${progress.total}...` : 'Analysing...'}
                 </>
               ) : 'Extract Rules'}
             </button>
           </div>
         </div>
 
-        {/* Product Data Model Schema (Read-only) */}
+        {/* Product Data Model */}
         <div className="bg-white rounded-lg shadow-sm p-6 border border-gray-200">
-          <h2 className="text-lg font-bold text-gray-900 mb-4 flex items-center">
-            <svg className="w-5 h-5 mr-2 text-indigo-500" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 7v10c0 2.21 3.582 4 8 4s8-1.79 8-4V7M4 7c0 2.21 3.582 4 8 4s8-1.79 8-4M4 7c0-2.21 3.582-4 8-4s8 1.79 8 4m0 5c0 2.21-3.582 4-8 4s-8-1.79-8-4" /></svg>
-            Product Data Model
-          </h2>
+          <div className="flex justify-between items-center mb-4">
+            <h2 className="text-lg font-bold text-gray-900 flex items-center">
+              <svg className="w-5 h-5 mr-2 text-indigo-500" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 7v10c0 2.21 3.582 4 8 4s8-1.79 8-4V7M4 7c0 2.21 3.582 4 8 4s8-1.79 8-4M4 7c0-2.21 3.582-4 8-4s8 1.79 8 4m0 5c0 2.21-3.582 4-8 4s-8-1.79-8-4" /></svg>
+              Product Data Model
+            </h2>
+            {editingAttrId === null && (
+              <button
+                onClick={() => setEditingAttrId(NEW_ATTRIBUTE)}
+                className="text-xs font-medium text-indigo-600 hover:text-indigo-800"
+              >
+                + Add Attribute
+              </button>
+            )}
+          </div>
+          {editingAttrId === NEW_ATTRIBUTE && (
+            <div className="mb-4">
+              <AttributeEditor
+                attribute={{ id: '', name: '', type: 'string', required: false }}
+                isNew={true}
+                existingIds={attributes.map(a => a.id)}
+                onSave={(attr) => {
+                  setAttributes(prev => [...prev, attr]);
+                  setEditingAttrId(null);
+                }}
+                onCancel={() => setEditingAttrId(null)}
+              />
+            </div>
+          )}
           {attributes.length === 0 ? (
-             <p className="text-sm text-gray-400 italic">No attributes defined. Import a project JSON to set the model.</p>
+             <p className="text-sm text-gray-400 italic">No attributes defined. Add one or import a project JSON to set the model.</p>
           ) : (
-             <div className="space-y-4 max-h-64 overflow-y-auto">
-                {attributes.map(attr => (
-                    <div key={attr.id} className="text-sm">
+             <div className="space-y-4 max-h-96 overflow-y-auto">
+                {attributes.map((attr, idx) => (
+                    editingAttrId === attr.id ? (
+                      <AttributeEditor
+                        key={attr.id}
+                        attribute={attr}
+                        existingIds={attributes.map(a => a.id)}
+                        onSave={handleSaveAttribute}
+                        onCancel={() => setEditingAttrId(null)}
+                      />
+                    ) : (
+                    <div key={attr.id} className="text-sm group">
                         <div className="flex items-center justify-between">
                             <span className="font-semibold text-gray-700">
                               {attr.name}
                               {attr.required && <span className="text-red-500 ml-1 text-xs">*</span>}
                             </span>
-                            <span className="text-xs font-mono bg-gray-100 text-gray-600 px-1.5 py-0.5 rounded">{attr.id}</span>
+                            <span className="flex items-center space-x-2">
+                              <span className="hidden group-hover:inline-flex space-x-1 text-xs">
+                                <button onClick={() => handleMoveAttribute(idx, -1)} disabled={idx === 0} className="text-gray-400 hover:text-gray-700 disabled:opacity-30" title="Move up">↑</button>
+                                <button onClick={() => handleMoveAttribute(idx, 1)} disabled={idx === attributes.length - 1} className="text-gray-400 hover:text-gray-700 disabled:opacity-30" title="Move down">↓</button>
+                                <button onClick={() => setEditingAttrId(attr.id)} className="text-indigo-600 hover:text-indigo-800">Edit</button>
+                                <button onClick={() => handleDeleteAttribute(attr.id)} className="text-red-600 hover:text-red-800">Delete</button>
+                              </span>
+                              <span className="text-xs font-mono bg-gray-100 text-gray-600 px-1.5 py-0.5 rounded">{attr.id}</span>
+                            </span>
                         </div>
                         <div className="mt-1 pl-2 border-l-2 border-gray-100 text-xs text-gray-500">
                             Type: {attr.type} {attr.required ? '(Required)' : '(Optional)'}
@@ -107,6 +386,7 @@ const Authoring: React.FC<AuthoringProps> = ({ rules, setRules, attributes }) =>
                             )}
                         </div>
                     </div>
+                    )
                 ))}
              </div>
           )}
@@ -127,8 +407,12 @@ const Authoring: React.FC<AuthoringProps> = ({ rules, setRules, attributes }) =>
                 key={rule.id} 
                 rule={rule} 
                 isDraft={true} 
+                attributes={attributes}
+                issues={validateRule(rule, attributes)}
                 onApprove={handleApprove}
                 onDelete={handleDiscard}
+                onSave={handleSaveDraft}
+                history={historyOf(rule.id)}
               />
             ))
           )}
@@ -141,14 +425,118 @@ const Authoring: React.FC<AuthoringProps> = ({ rules, setRules, attributes }) =>
             <h2 className="text-lg font-bold text-gray-900">Active Knowledge Base</h2>
             <span className="bg-indigo-100 text-indigo-800 text-xs px-2 py-1 rounded-full">{activeRules.length} Active Rules</span>
          </div>
+
+         {/* Consistency Analysis */}
+         <div className="mb-4 bg-white rounded-lg border border-gray-200 p-4">
+            <div className="flex justify-between items-center">
+               <h3 className="text-sm font-semibold text-gray-700">Consistency Check</h3>
+               <span className="text-xs text-gray-400">{isAnalyzing ? 'Analyzing...' : report ? `Checked ${new Date(report.checkedAt).toLocaleTimeString()}` : ''}</span>
+            </div>
+            {report && (
+              report.issues.length === 0 ? (
+                <p className="mt-2 text-xs text-green-700">No conflicts, dead rules, redundant rules or unreachable options found.</p>
+              ) : (
+                <ul className="mt-2 space-y-1 max-h-40 overflow-y-auto">
+                  {report.issues.map((issue, idx) => (
+                    <li key={idx} className={`text-xs px-2 py-1 rounded ${issue.kind === 'unsatisfiable' ? 'bg-red-50 text-red-700' : 'bg-yellow-50 text-yellow-800'}`}>
+                      <span className="font-semibold uppercase tracking-wide mr-1">{issue.kind.replace('_', ' ')}:</span>
+                      {issue.message}
+                    </li>
+                  ))}
+                </ul>
+              )
+            )}
+         </div>
+
+         <TestsPanel
+           tests={goldenTests}
+           results={[...deterministicTestResults, ...z3TestResults]}
+           isRunningZ3={isTestingZ3}
+           onUpdate={(test) => setGoldenTests(prev => prev.map(t => t.id === test.id ? test : t))}
+           onDelete={(testId) => setGoldenTests(prev => prev.filter(t => t.id !== testId))}
+         />
+
+         {/* Change History */}
+         <div className="mb-4 bg-white rounded-lg border border-gray-200 p-4 text-xs">
+            <div className="flex justify-between items-center mb-2">
+               <h3 className="text-sm font-semibold text-gray-700">Change History</h3>
+               <span className="space-x-2">
+                 <label className="text-gray-500">
+                   Acting as{' '}
+                   <input
+                     className="w-28 px-1.5 py-0.5 border border-gray-300 rounded"
+                     value={actor}
+                     onChange={(e) => onActorChange(e.target.value)}
+                   />
+                 </label>
+                 <button onClick={handleExportAuditLog} disabled={auditLog.length === 0} className="text-indigo-600 hover:text-indigo-800 font-medium disabled:opacity-50">
+                   Export log
+                 </button>
+               </span>
+            </div>
+            {restorePoints.length === 0 ? (
+              <p className="text-gray-400">No knowledge base changes recorded yet.</p>
+            ) : (
+              <div className="flex items-center space-x-2">
+                <select
+                  className="flex-1 min-w-0 px-1.5 py-1 border border-gray-300 rounded bg-white"
+                  value={restorePoint}
+                  onChange={(e) => setRestorePoint(e.target.value)}
+                >
+                  <option value="">Restore the knowledge base as of…</option>
+                  {restorePoints.map(e => (
+                    <option key={e.id} value={e.id}>
+                      {new Date(e.timestamp).toLocaleString()} · {e.action} {e.rule_id} by {e.actor}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  onClick={handleRestore}
+                  disabled={!restorePoint}
+                  className="bg-indigo-600 text-white px-3 py-1 rounded hover:bg-indigo-700 transition-colors disabled:opacity-50"
+                >
+                  Restore
+                </button>
+              </div>
+            )}
+         </div>
+
          <div className="flex-1 overflow-y-auto pr-2">
             {activeRules.length === 0 ? (
                 <p className="text-sm text-gray-500">No active rules defined.</p>
             ) : (
                 activeRules.map(rule => (
-                    <RuleCard key={rule.id} rule={rule} />
+                    <RuleCard
+                      key={rule.id}
+                      rule={rule}
+                      attributes={attributes}
+                      issues={validateRule(rule, attributes)}
+                      onSave={handleSaveRule}
+                      onToggleActive={handleToggleActive}
+                      onDelete={handleDeleteRule}
+                      history={historyOf(rule.id)}
+                    />
                 ))
             )}
+            {inactiveRules.length > 0 && (
+              <>
+                <h3 className="text-sm font-semibold text-gray-500 uppercase tracking-wider mt-6 mb-3">
+                  Inactive ({inactiveRules.length})
+                </h3>
+                {inactiveRules.map(rule => (
+                    <RuleCard
+                      key={rule.id}
+                      rule={rule}
+                      attributes={attributes}
+                      issues={validateRule(rule, attributes)}
+                      onSave={handleSaveRule}
+                      onToggleActive={handleToggleActive}
+                      onDelete={handleDeleteRule}
+                      history={historyOf(rule.id)}
+                    />
+                ))}
+              </>
+            )}
          </div>
       </div>
     </div>
@@ -1,93 +1,172 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { Rule, Configuration, ValidationResult, ProductAttribute, ProjectData } from '../types';
-import { validateDeterministic } from '../services/engine';
-import { Z3SatEngine } from '../services/z3Service';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Rule, Configuration, ValidationResult, ProductAttribute, ProjectData, AttributeDomains, OptimizationResult, OptimizationGoal, PriceRule, ImportMode, ImportConflictPolicy, GoldenTest } from '../types';
+import { validateDeterministic, computeDomainsDeterministic, deriveAttributes } from '../services/engine';
+import { z3Engine } from '../services/z3WorkerEngine';
 import { getFixSuggestions } from '../services/geminiService';
+import { calculatePrice, formatPrice } from '../services/pricing';
+import { migrateProject, validateProjectData, CURRENT_FORMAT_VERSION } from '../services/projectFormat';
+import ImportPreview, { PendingImport } from '../components/ImportPreview';
 
 interface ConfiguratorProps {
   rules: Rule[];
-  setRules: (rules: Rule[]) => void;
   attributes: ProductAttribute[];
-  setAttributes: (attrs: ProductAttribute[]) => void;
+  priceRules: PriceRule[];
+  project: ProjectData; // The whole open project, for export and import previews
+  config: Configuration; // The user's own selections, persisted with the project
+  setConfig: (config: Configuration) => void;
+  onImportProject: (data: ProjectData, mode: ImportMode, policy: ImportConflictPolicy) => void;
+  onAddGoldenTest: (test: GoldenTest) => void;
+  onAddToQuote: (config: Configuration) => void;
 }
 
-const z3Engine = new Z3SatEngine();
-
-const Configurator: React.FC<ConfiguratorProps> = ({ rules, setRules, attributes, setAttributes }) => {
-  // Initialize config with default values defined in the schema
-  const [config, setConfig] = useState<Configuration>(() => {
-    const defaults: Configuration = {};
-    attributes.forEach(attr => {
-      if (attr.defaultValue !== undefined) {
-        defaults[attr.id] = attr.defaultValue;
-      }
-    });
-    return defaults;
-  });
-
+const Configurator: React.FC<ConfiguratorProps> = ({ rules, attributes, priceRules, project, config, setConfig, onImportProject, onAddGoldenTest, onAddToQuote }) => {
   const [validation, setValidation] = useState<ValidationResult>({ isValid: true, violations: [] });
+  const [domains, setDomains] = useState<AttributeDomains>({});
   const [suggestion, setSuggestion] = useState<string | null>(null);
   const [isSuggesting, setIsSuggesting] = useState(false);
+  const [completion, setCompletion] = useState<OptimizationResult | null>(null);
+  const [isCompleting, setIsCompleting] = useState(false);
+  const [budget, setBudget] = useState('');
+  const [preferences, setPreferences] = useState<NonNullable<OptimizationGoal['preferences']>>([]);
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
   const [solverMode, setSolverMode] = useState<'deterministic' | 'z3'>('deterministic');
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  // Sync related attributes (just for UX convenience in this demo)
+  // `config` holds the user's own selections; assignment rules fill in the derived attributes on top
+  const { config: effectiveConfig, derived } = useMemo(() => deriveAttributes(config, rules), [config, rules]);
+
+  // A solver answer holds derived values too. Only the choices are kept, so derived
+  // attributes keep following their sources when the user changes them later.
+  const choicesOf = (solved: Configuration): Configuration => {
+    const derivedIds = deriveAttributes(solved, rules).derived;
+    return Object.fromEntries(Object.entries(solved).filter(([attrId]) => !derivedIds.includes(attrId)));
+  };
+
   const handleSelection = (attrId: string, val: any) => {
     const newConfig = { ...config, [attrId]: val };
 
-    // If value is empty string, remove it from config (cleaner state)
-    if (val === '') {
+    // If value is empty string or nothing is picked, remove it from config (cleaner state)
+    if (val === '' || (Array.isArray(val) && val.length === 0)) {
       delete newConfig[attrId];
     }
 
-    // Simple lookup to auto-fill related fields for smoother UX (demo logic only)
-    if (attrId === 'motor_type' && val) {
-      const hp = attributes.find(a => a.id === 'motor_hp')?.options?.find(o => o.label.includes(val === 'motor-A' ? '5' : val === 'motor-B' ? '12' : '20'))?.value;
-      if (hp) newConfig['motor_hp'] = hp;
-    }
-    if (attrId === 'cooling_unit' && val) {
-      const cap = attributes.find(a => a.id === 'cooling_capacity')?.options?.find(o => o.label.includes(val === 'ACM-400' ? '4000' : val === 'ACM-500' ? '5000' : '7000'))?.value;
-      if (cap) newConfig['cooling_capacity'] = cap;
-    }
-
     setConfig(newConfig);
     setSuggestion(null);
+    setCompletion(null);
+  };
+
+  // Completion always uses the Z3 model, whichever engine drives live validation
+  const handleComplete = async () => {
+    setIsCompleting(true);
+    try {
+      const result = await z3Engine.complete(effectiveConfig, rules, attributes);
+      if (result.success) {
+        setConfig(choicesOf(result.config));
+        setSuggestion(null);
+      }
+      setCompletion(result);
+    } finally {
+      setIsCompleting(false);
+    }
   };
 
   // Run validation engine on every change
   useEffect(() => {
-    // Debounce validation to prevent solver thrashing/concurrency issues
-    // Z3 needs more time/resources, so we delay it. Deterministic is fast.
-    const delay = solverMode === 'z3' ? 1500 : 50;
+    // Z3 solves in its worker and requests on the configurator channels supersede each
+    // other there, so both engines only need a short pause to batch rapid changes
+    const delay = 50;
+    let stale = false;
+
+    // Until Z3 answers, the previous verdict no longer applies to these selections
+    if (solverMode === 'z3') setValidation(prev => ({ ...prev, status: 'validating' }));
 
     const timer = setTimeout(async () => {
-      let result: ValidationResult;
-      // Show "Validating..." state? 
-      // For now, just run.
-
-      if (solverMode === 'z3') {
-        result = await z3Engine.validate(config, rules, attributes);
-      } else {
-        result = validateDeterministic(config, rules, attributes);
-      }
+      const result = solverMode === 'z3'
+        ? await z3Engine.validate(effectiveConfig, rules, attributes, 'configurator-validate')
+        : validateDeterministic(effectiveConfig, rules, attributes);
+      // A newer change has started its own check; its result is the one to show
+      if (stale || result.status === 'cancelled') return;
       setValidation(result);
+
+      // Grey out options of unset attributes that the rules already exclude
+      const nextDomains = solverMode === 'z3'
+        ? await z3Engine.computeDomains(effectiveConfig, rules, attributes, 'configurator-domains')
+        : computeDomainsDeterministic(effectiveConfig, rules, attributes);
+      if (!stale) setDomains(nextDomains);
     }, delay);
 
-    return () => clearTimeout(timer);
-  }, [config, rules, attributes, solverMode]);
+    return () => {
+      stale = true;
+      clearTimeout(timer);
+    };
+  }, [effectiveConfig, rules, attributes, solverMode]);
+
+  // Cheapest / best-under-budget search over the attributes the user left open
+  const handleOptimize = async (goal: OptimizationGoal) => {
+    setIsCompleting(true);
+    try {
+      const result = await z3Engine.optimize(effectiveConfig, rules, attributes, priceRules, goal);
+      if (result.success) {
+        setConfig(choicesOf(result.config));
+        setSuggestion(null);
+      }
+      setCompletion(result);
+    } finally {
+      setIsCompleting(false);
+    }
+  };
+
+  const price = calculatePrice(effectiveConfig, attributes, priceRules);
+
+  // Options a preference can point at, keyed "attribute index:option index" for the select
+  const preferableAttributes = attributes.filter(a => a.options && a.options.length > 0);
+  const updatePreference = (idx: number, patch: Partial<typeof preferences[number]>) =>
+    setPreferences(preferences.map((p, i) => i === idx ? { ...p, ...patch } : p));
+
+  // Errors make the configuration invalid; warnings are soft rules it trades off, heaviest first
+  const errors = validation.violations.filter(v => v.severity === 'error');
+  const warnings = validation.violations
+    .filter(v => v.severity === 'warning')
+    .sort((a, b) => (b.weight || 0) - (a.weight || 0));
+  const validating = validation.status === 'validating';
+  const status = validating
+    ? { title: 'Validating…', card: 'bg-gray-50 border-gray-200', icon: 'bg-gray-100 text-gray-500', text: 'text-gray-700' }
+    : !validation.isValid
+      ? { title: 'Incomplete / Invalid', card: 'bg-red-50 border-red-200', icon: 'bg-red-100 text-red-600', text: 'text-red-800' }
+      : warnings.length > 0
+        ? { title: 'Valid with Warnings', card: 'bg-yellow-50 border-yellow-200', icon: 'bg-yellow-100 text-yellow-600', text: 'text-yellow-800' }
+        : { title: 'Configuration Valid', card: 'bg-green-50 border-green-200', icon: 'bg-green-100 text-green-600', text: 'text-green-800' };
 
   const handleAskAdvisor = async () => {
-    if (validation.isValid) return;
+    if (validating || validation.isValid) return;
     setIsSuggesting(true);
-    const text = await getFixSuggestions(config, validation.violations);
+    const text = await getFixSuggestions(effectiveConfig, validation.violations);
     setSuggestion(text);
     setIsSuggesting(false);
   };
 
+  // Records the current selections and their verdict as a golden test. The user's own
+  // selections are stored, not the derived ones, so assignment rules are exercised too.
+  // Only ids of the project's rules are expected: schema issues and engine errors carry ids
+  // such as schema-validation that the other engine never reports.
+  const handleSaveAsTest = () => {
+    const name = prompt('Name for this test configuration:', `Test ${new Date().toLocaleString()}`);
+    if (!name?.trim()) return;
+    const failedRuleIds = [...new Set(errors.map(v => v.rule_id))].filter(id => rules.some(r => r.id === id));
+    onAddGoldenTest({
+      id: `test-${Date.now()}`,
+      name: name.trim(),
+      config,
+      expect: validation.isValid ? 'valid' : 'invalid',
+      expectedRuleIds: validation.isValid ? undefined : failedRuleIds
+    });
+  };
+
   const handleExport = () => {
+    // Everything the project holds goes out, golden tests, drafts and the audit log included
     const data: ProjectData = {
-      attributes,
-      rules,
+      ...project,
+      formatVersion: CURRENT_FORMAT_VERSION,
       config,
       metadata: {
         appName: 'Antigravity CPQ',
@@ -116,47 +195,31 @@ const Configurator: React.FC<ConfiguratorProps> = ({ rules, setRules, attributes
 
     const reader = new FileReader();
     reader.onload = (event) => {
+      let json: any;
       try {
-        const json = JSON.parse(event.target?.result as string);
-
-        // 1. Load Attributes (The Model)
-        if (json.attributes && Array.isArray(json.attributes)) {
-          setAttributes(json.attributes);
-
-          // 2. Load or Generate Config
-          if (json.config) {
-            setConfig(json.config);
-          } else {
-            // Reset to defaults if no specific config is provided
-            const defaults: Configuration = {};
-            json.attributes.forEach((attr: ProductAttribute) => {
-              if (attr.defaultValue !== undefined) {
-                defaults[attr.id] = attr.defaultValue;
-              }
-            });
-            setConfig(defaults);
-          }
-        }
-
-        // 3. Load Rules
-        if (json.rules && Array.isArray(json.rules)) {
-          setRules(json.rules);
-        }
-
-        // Optional: Clear any existing suggestions
-        setSuggestion(null);
-
-        alert('Project loaded successfully.');
+        json = JSON.parse(event.target?.result as string);
       } catch (err) {
         console.error(err);
-        alert('Failed to parse JSON file. Please check the format.');
+        setPendingImport({ fileName: file.name, data: null, fromVersion: 0, errors: [{ path: '', message: 'The file is not valid JSON.' }] });
+        return;
       }
+      // Upgrade older exports before checking them, then let the user review before anything changes
+      const { data, fromVersion } = migrateProject(json);
+      const errors = validateProjectData(data);
+      setPendingImport({ fileName: file.name, data: errors.length === 0 ? data : null, fromVersion, errors });
     };
     reader.readAsText(file);
     // Reset input so same file can be selected again
     e.target.value = '';
   };
 
+  const handleConfirmImport = (data: ProjectData, mode: ImportMode, policy: ImportConflictPolicy) => {
+    onImportProject(data, mode, policy);
+    setPendingImport(null);
+    setSuggestion(null);
+    setCompletion(null);
+  };
+
   const handleJumpToField = (attrId: string) => {
     const el = document.getElementById(`input-${attrId}`);
     if (el) {
@@ -171,6 +234,15 @@ const Configurator: React.FC<ConfiguratorProps> = ({ rules, setRules, attributes
   return (
     <div className="max-w-7xl mx-auto px-4 py-8">
 
+      {pendingImport && (
+        <ImportPreview
+          pending={pendingImport}
+          current={project}
+          onConfirm={handleConfirmImport}
+          onCancel={() => setPendingImport(null)}
+        />
+      )}
+
       {/* Action Toolbar */}
       <div className="flex justify-between items-center mb-8 bg-white p-4 rounded-lg border border-gray-200 shadow-sm">
         <div>
@@ -200,6 +272,32 @@ const Configurator: React.FC<ConfiguratorProps> = ({ rules, setRules, attributes
             </button>
           </div>
 
+          <button
+            onClick={handleComplete}
+            disabled={isCompleting || attributes.length === 0}
+            className={`px-4 py-2 bg-white border border-indigo-300 text-indigo-700 rounded-md text-sm font-medium hover:bg-indigo-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 ${isCompleting ? 'opacity-50 cursor-not-allowed' : ''}`}
+          >
+            {isCompleting ? 'Completing...' : 'Complete Configuration'}
+          </button>
+
+          <button
+            onClick={handleSaveAsTest}
+            disabled={attributes.length === 0 || validating}
+            className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-md text-sm font-medium hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+            title="Record these selections and the current verdict as a regression test"
+          >
+            Save as Test
+          </button>
+
+          <button
+            onClick={() => onAddToQuote(config)}
+            disabled={attributes.length === 0}
+            className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-md text-sm font-medium hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+            title="Add these selections to the quote as a new line"
+          >
+            Add to Quote
+          </button>
+
           <div className="h-6 w-px bg-gray-300 mx-1"></div>
 
           <button
@@ -224,6 +322,41 @@ const Configurator: React.FC<ConfiguratorProps> = ({ rules, setRules, attributes
         </div>
       </div>
 
+      {/* Auto-complete outcome */}
+      {completion && (
+        <div className={`mb-6 p-4 rounded-lg border text-sm ${completion.success ? 'bg-indigo-50 border-indigo-200 text-indigo-900' : 'bg-red-50 border-red-200 text-red-800'}`}>
+          <div className="flex justify-between items-start">
+            <div>
+              {completion.success ? (
+                completion.filled.length > 0
+                  ? <span>
+                      Filled {completion.filled.map(id => attributes.find(a => a.id === id)?.name || id).join(', ')} with values that satisfy all approved rules.
+                      {completion.total !== undefined && <> Optimized total: <strong>{formatPrice(completion.total)}</strong>.</>}
+                    </span>
+                  : <span>Nothing to complete: every required attribute is already set.</span>
+              ) : (
+                <>
+                  <strong className="block mb-1">No valid completion exists for the current selections.</strong>
+                  <ul className="list-disc ml-5 space-y-1">
+                    {completion.blockers.map((b, idx) => (
+                      <li key={idx}>
+                        {b.message}
+                        {b.involvedAttributes && b.involvedAttributes.length > 0 && (
+                          <span className="opacity-75"> (blocked by {b.involvedAttributes.map(id => attributes.find(a => a.id === id)?.name || id).join(', ')})</span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </>
+              )}
+            </div>
+            <button onClick={() => setCompletion(null)} className="ml-4 text-xs underline opacity-75 hover:opacity-100">
+              Dismiss
+            </button>
+          </div>
+        </div>
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
         {/* Configuration Form */}
         <div className="lg:col-span-2 bg-white rounded-lg shadow-sm border border-gray-200 p-6">
@@ -233,31 +366,133 @@ const Configurator: React.FC<ConfiguratorProps> = ({ rules, setRules, attributes
             </div>
           ) : (
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-              {attributes.filter(a => ['string', 'number'].includes(a.type)).map(attr => (
+              {attributes.filter(a => ['string', 'number', 'multi', 'quantity'].includes(a.type)).map(attr => (
                 <div key={attr.id} className="space-y-2">
                   <label className="block text-sm font-medium text-gray-700">
                     {attr.name}
                     {attr.required && <span className="text-red-500 ml-1" title="Required">*</span>}
                     {!attr.required && <span className="text-gray-400 text-xs ml-1 font-normal">(Optional)</span>}
+                    {derived.includes(attr.id) && (
+                      <span className="ml-2 text-xs font-normal text-indigo-600 bg-indigo-50 px-1.5 py-0.5 rounded" title="Computed by an assignment rule">
+                        Computed
+                      </span>
+                    )}
                   </label>
-                  <div className="relative">
-                    <select
-                      id={`input-${attr.id}`}
-                      value={config[attr.id] || ''}
-                      onChange={(e) => handleSelection(attr.id, isNaN(Number(e.target.value)) ? e.target.value : Number(e.target.value))}
-                      className={`block w-full pl-3 pr-10 py-2.5 text-base focus:outline-none sm:text-sm rounded-md border transition-all duration-200
+                  {attr.type === 'multi' ? (
+                    <div className="space-y-1">
+                      {attr.options?.map(opt => {
+                        const picked: any[] = effectiveConfig[attr.id] || [];
+                        const isPicked = picked.includes(opt.value);
+                        const availability = domains[attr.id]?.find(d => d.value === opt.value);
+                        // Options already picked stay clickable so they can be removed
+                        const excluded = !isPicked && availability ? !availability.available : false;
+                        return (
+                          <label
+                            key={String(opt.value)}
+                            className={`flex items-center text-sm ${excluded ? 'text-gray-400' : 'text-gray-700'}`}
+                            title={excluded ? `Excluded by ${availability!.excludedBy?.join(', ')}` : undefined}
+                          >
+                            <input
+                              type="checkbox"
+                              className="mr-2 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                              checked={isPicked}
+                              disabled={excluded || derived.includes(attr.id)}
+                              onChange={(e) => handleSelection(attr.id, e.target.checked
+                                ? [...picked, opt.value]
+                                : picked.filter(v => v !== opt.value))}
+                            />
+                            {opt.label} {opt.price ? `(+ ${formatPrice(opt.price)})` : ''}
+                            {excluded ? ` — excluded by ${availability!.excludedBy?.join(', ') || 'rules'}` : ''}
+                          </label>
+                        );
+                      })}
+                      {(attr.min !== undefined || attr.max !== undefined) && (
+                        <p className="text-xs text-gray-400">
+                          Pick {attr.min !== undefined && attr.max !== undefined ? `${attr.min} to ${attr.max}` : attr.min !== undefined ? `at least ${attr.min}` : `at most ${attr.max}`}
+                        </p>
+                      )}
+                    </div>
+                  ) : attr.type === 'number' && !attr.options?.length ? (
+                    <div className="flex items-center space-x-3">
+                      {attr.min !== undefined && attr.max !== undefined && (
+                        <input
+                          type="range"
+                          min={attr.min}
+                          max={attr.max}
+                          step={attr.step ?? 'any'}
+                          value={effectiveConfig[attr.id] ?? attr.min}
+                          disabled={derived.includes(attr.id)}
+                          onChange={(e) => handleSelection(attr.id, Number(e.target.value))}
+                          className="flex-1 accent-indigo-600"
+                        />
+                      )}
+                      <input
+                        id={`input-${attr.id}`}
+                        type="number"
+                        min={attr.min}
+                        max={attr.max}
+                        step={attr.step ?? 'any'}
+                        value={effectiveConfig[attr.id] ?? ''}
+                        disabled={derived.includes(attr.id)}
+                        onChange={(e) => handleSelection(attr.id, e.target.value === '' ? '' : Number(e.target.value))}
+                        className={`block w-28 pl-3 py-2.5 text-base focus:outline-none sm:text-sm rounded-md border
                             ${validation.violations.some(v => v.message.includes(attr.name) && v.rule_id === 'schema-validation')
                           ? 'border-red-300 focus:ring-red-500 focus:border-red-500 bg-red-50'
-                          : 'border-gray-300 focus:ring-indigo-500 focus:border-indigo-500'}`}
-                    >
-                      <option value="">{attr.required ? '-- Select --' : '-- None --'}</option>
-                      {attr.options?.map(opt => (
-                        <option key={String(opt.value)} value={opt.value}>
-                          {opt.label} {attr.defaultValue === opt.value ? '(Default)' : ''}
-                        </option>
-                      ))}
-                    </select>
-                  </div>
+                          : 'border-gray-300 focus:ring-indigo-500 focus:border-indigo-500'}
+                            ${derived.includes(attr.id) ? 'bg-gray-100 text-gray-600 cursor-not-allowed' : ''}`}
+                      />
+                      {attr.unit && <span className="text-sm text-gray-500">{attr.unit}</span>}
+                    </div>
+                  ) : attr.type === 'quantity' ? (
+                    <input
+                      id={`input-${attr.id}`}
+                      type="number"
+                      min={attr.min ?? 0}
+                      max={attr.max}
+                      step={1}
+                      value={effectiveConfig[attr.id] ?? ''}
+                      disabled={derived.includes(attr.id)}
+                      onChange={(e) => handleSelection(attr.id, e.target.value === '' ? '' : Number(e.target.value))}
+                      className={`block w-full pl-3 py-2.5 text-base focus:outline-none sm:text-sm rounded-md border border-gray-300 focus:ring-indigo-500 focus:border-indigo-500
+                            ${derived.includes(attr.id) ? 'bg-gray-100 text-gray-600 cursor-not-allowed' : ''}`}
+                    />
+                  ) : (
+                    <div className="relative">
+                      <select
+                        id={`input-${attr.id}`}
+                        value={effectiveConfig[attr.id] ?? ''}
+                        disabled={derived.includes(attr.id)}
+                        onChange={(e) => handleSelection(attr.id, isNaN(Number(e.target.value)) ? e.target.value : Number(e.target.value))}
+                        className={`block w-full pl-3 pr-10 py-2.5 text-base focus:outline-none sm:text-sm rounded-md border transition-all duration-200
+                              ${validation.violations.some(v => v.message.includes(attr.name) && v.rule_id === 'schema-validation')
+                            ? 'border-red-300 focus:ring-red-500 focus:border-red-500 bg-red-50'
+                            : 'border-gray-300 focus:ring-indigo-500 focus:border-indigo-500'}
+                              ${derived.includes(attr.id) ? 'bg-gray-100 text-gray-600 cursor-not-allowed' : ''}`}
+                      >
+                        <option value="">{attr.required ? '-- Select --' : '-- None --'}</option>
+                        {attr.options?.map(opt => {
+                          const availability = domains[attr.id]?.find(d => d.value === opt.value);
+                          const excluded = availability ? !availability.available : false;
+                          return (
+                            <option
+                              key={String(opt.value)}
+                              value={opt.value}
+                              disabled={excluded}
+                              title={excluded ? `Excluded by ${availability!.excludedBy?.join(', ')}` : undefined}
+                            >
+                              {opt.label} {opt.price ? `(+ ${formatPrice(opt.price)})` : ''} {attr.defaultValue === opt.value ? '(Default)' : ''}
+                              {excluded ? ` — excluded by ${availability!.excludedBy?.join(', ') || 'rules'}` : ''}
+                            </option>
+                          );
+                        })}
+                      </select>
+                    </div>
+                  )}
+                  {attr.type !== 'multi' && domains[attr.id]?.some(d => !d.available) && (
+                    <p className="text-xs text-gray-400">
+                      {domains[attr.id].filter(d => !d.available).length} of {domains[attr.id].length} options ruled out by current selections
+                    </p>
+                  )}
                 </div>
               ))}
             </div>
@@ -267,7 +502,7 @@ const Configurator: React.FC<ConfiguratorProps> = ({ rules, setRules, attributes
           <div className="mt-8 pt-6 border-t border-gray-100">
             <h3 className="text-xs font-semibold text-gray-400 uppercase tracking-wider mb-2">Current State (JSON)</h3>
             <pre className="bg-gray-900 text-gray-100 p-4 rounded-md text-xs font-mono overflow-auto">
-              {JSON.stringify(config, null, 2)}
+              {JSON.stringify(effectiveConfig, null, 2)}
             </pre>
           </div>
         </div>
@@ -276,18 +511,20 @@ const Configurator: React.FC<ConfiguratorProps> = ({ rules, setRules, attributes
         <div className="lg:col-span-1 space-y-6">
 
           {/* Status Card */}
-          <div className={`rounded-lg p-6 border ${validation.isValid ? 'bg-green-50 border-green-200' : 'bg-red-50 border-red-200'} transition-colors duration-300 sticky top-24`}>
+          <div className={`rounded-lg p-6 border ${status.card} transition-colors duration-300 sticky top-24`}>
             <div className="flex items-center mb-4">
-              <div className={`p-2 rounded-full ${validation.isValid ? 'bg-green-100 text-green-600' : 'bg-red-100 text-red-600'} mr-3`}>
-                {validation.isValid ? (
+              <div className={`p-2 rounded-full ${status.icon} mr-3`}>
+                {validating ? (
+                  <svg className="w-6 h-6 animate-spin" fill="none" viewBox="0 0 24 24"><circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" /><path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8v4a4 4 0 00-4 4H4z" /></svg>
+                ) : validation.isValid ? (
                   <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" /></svg>
                 ) : (
                   <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" /></svg>
                 )}
               </div>
               <div>
-                <h3 className={`text-lg font-bold ${validation.isValid ? 'text-green-800' : 'text-red-800'}`}>
-                  {validation.isValid ? 'Configuration Valid' : 'Incomplete / Invalid'}
+                <h3 className={`text-lg font-bold ${status.text}`}>
+                  {status.title}
                 </h3>
                 <div className="text-xs font-mono opacity-75 mt-1">
                   Engine: {solverMode === 'z3' ? 'Z3-SMT' : 'Deterministic'}
@@ -295,9 +532,9 @@ const Configurator: React.FC<ConfiguratorProps> = ({ rules, setRules, attributes
               </div>
             </div>
 
-            {!validation.isValid && (
+            {!validating && !validation.isValid && (
               <div className="space-y-3">
-                {validation.violations.map((v, idx) => (
+                {errors.map((v, idx) => (
                   <div key={idx} className="text-sm text-red-700 bg-red-100/50 p-3 rounded border border-red-100 flex flex-col items-start">
                     <div className="flex items-start">
                       <span className="mr-2 mt-0.5">•</span>
@@ -305,7 +542,11 @@ const Configurator: React.FC<ConfiguratorProps> = ({ rules, setRules, attributes
                         {v.rule_id === 'schema-validation' ? (
                           <strong>{v.message}</strong>
                         ) : (
-                          <span><span className="font-semibold block text-xs uppercase tracking-wide opacity-75">Rule {v.rule_id}</span>{v.message}</span>
+                          <span>
+                            <span className="font-semibold block text-xs uppercase tracking-wide opacity-75">Rule {v.rule_id}</span>
+                            {v.message}
+                            {v.source && <span className="block text-xs opacity-60 mt-1">Source: {v.source}</span>}
+                          </span>
                         )}
                       </div>
                     </div>
@@ -333,10 +574,135 @@ const Configurator: React.FC<ConfiguratorProps> = ({ rules, setRules, attributes
                 ))}
               </div>
             )}
+
+            {!validating && warnings.length > 0 && (
+              <div className="mt-4">
+                <h4 className="text-xs font-semibold uppercase tracking-wide text-yellow-800 mb-2">
+                  Trade-offs ({warnings.length} recommendation{warnings.length === 1 ? '' : 's'} not met)
+                </h4>
+                <div className="space-y-2">
+                  {warnings.map((v, idx) => (
+                    <div key={idx} className="text-sm text-yellow-900 bg-yellow-100/50 p-3 rounded border border-yellow-100">
+                      <span className="font-semibold block text-xs uppercase tracking-wide opacity-75">
+                        Rule {v.rule_id}{v.weight !== undefined && ` · weight ${v.weight}`}
+                      </span>
+                      {v.message}
+                      {v.source && <span className="block text-xs opacity-60 mt-1">Source: {v.source}</span>}
+                      {v.involvedAttributes && v.involvedAttributes.length > 0 && (
+                        <div className="mt-2 flex flex-wrap gap-2">
+                          {v.involvedAttributes.map(attrId => (
+                            <button
+                              key={attrId}
+                              onClick={() => handleJumpToField(attrId)}
+                              className="text-xs text-yellow-800 hover:underline bg-white/60 hover:bg-white px-2 py-1 rounded border border-yellow-200"
+                            >
+                              {attributes.find(a => a.id === attrId)?.name || attrId}
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+
+          {/* Live Quote */}
+          <div className="bg-white rounded-lg border border-gray-200 shadow-sm p-6">
+            <h3 className="text-md font-bold text-gray-900 mb-3">Quote</h3>
+            {price.lines.length === 0 ? (
+              <p className="text-sm text-gray-400 italic">No priced selections yet.</p>
+            ) : (
+              <div className="space-y-1 text-sm">
+                {price.lines.map((line, idx) => (
+                  <div key={idx} className={`flex justify-between ${line.kind === 'adjustment' ? 'text-indigo-700' : 'text-gray-700'}`}>
+                    <span className="pr-2">{line.kind === 'base' ? `${line.label} (base)` : line.label}</span>
+                    <span className="font-mono">{formatPrice(line.amount)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+            <div className="mt-3 pt-3 border-t border-gray-100 flex justify-between text-sm font-bold text-gray-900">
+              <span>Total</span>
+              <span className="font-mono">{formatPrice(price.total)}</span>
+            </div>
+
+            {/* Optimization (Z3 Optimize over the unset attributes) */}
+            <div className="mt-4 pt-4 border-t border-gray-100 space-y-2">
+              <button
+                onClick={() => handleOptimize({ objective: 'min_price' })}
+                disabled={isCompleting || attributes.length === 0}
+                className="w-full px-3 py-2 bg-white border border-indigo-300 text-indigo-700 rounded-md text-xs font-medium hover:bg-indigo-50 disabled:opacity-50"
+              >
+                Cheapest Valid Configuration
+              </button>
+              <div className="flex space-x-2">
+                <input
+                  type="number"
+                  min={0}
+                  value={budget}
+                  onChange={(e) => setBudget(e.target.value)}
+                  placeholder="Budget ($)"
+                  className="flex-1 min-w-0 px-2 py-2 border border-gray-300 rounded-md text-xs focus:ring-indigo-500 focus:border-indigo-500"
+                />
+                <button
+                  onClick={() => handleOptimize({ objective: 'max_preference', budget: Number(budget), preferences: preferences.length > 0 ? preferences : undefined })}
+                  disabled={isCompleting || attributes.length === 0 || budget === ''}
+                  className="px-3 py-2 bg-indigo-600 text-white rounded-md text-xs font-medium hover:bg-indigo-700 disabled:opacity-50"
+                >
+                  Best Under Budget
+                </button>
+              </div>
+              {preferences.map((pref, idx) => {
+                const attrIdx = preferableAttributes.findIndex(a => a.id === pref.attribute);
+                const optIdx = attrIdx === -1 ? -1 : preferableAttributes[attrIdx].options!.findIndex(o => o.value == pref.value);
+                return (
+                  <div key={idx} className="flex items-center space-x-2 text-xs">
+                    <select
+                      className="flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded-md bg-white"
+                      value={`${attrIdx}:${optIdx}`}
+                      onChange={(e) => {
+                        const [a, o] = e.target.value.split(':').map(Number);
+                        const attr = preferableAttributes[a];
+                        updatePreference(idx, { attribute: attr.id, value: attr.options![o].value });
+                      }}
+                    >
+                      {preferableAttributes.map((attr, a) => attr.options!.map((opt, o) => (
+                        <option key={`${a}:${o}`} value={`${a}:${o}`}>{attr.name}: {opt.label}</option>
+                      )))}
+                    </select>
+                    <input
+                      type="number"
+                      className="w-16 px-2 py-1 border border-gray-300 rounded-md"
+                      value={pref.weight}
+                      onChange={(e) => updatePreference(idx, { weight: Number(e.target.value) || 0 })}
+                      title="Weight"
+                    />
+                    <button onClick={() => setPreferences(preferences.filter((_, i) => i !== idx))} className="text-gray-400 hover:text-red-600" title="Remove preference">×</button>
+                  </div>
+                );
+              })}
+              <div className="flex justify-between items-center text-xs">
+                <span className="text-gray-400">
+                  {preferences.length === 0 ? 'No preferences: the most premium build wins.' : 'Highest summed weight wins.'}
+                </span>
+                <button
+                  onClick={() => {
+                    const attr = preferableAttributes[0];
+                    if (attr) setPreferences([...preferences, { attribute: attr.id, value: attr.options![0].value, weight: 1 }]);
+                  }}
+                  disabled={preferableAttributes.length === 0}
+                  className="text-indigo-600 hover:text-indigo-800 font-medium disabled:opacity-50"
+                >
+                  + Add preference
+                </button>
+              </div>
+            </div>
           </div>
 
           {/* AI Advisor */}
-          {!validation.isValid && (
+          {!validating && !validation.isValid && (
             <div className="bg-white rounded-lg border border-indigo-100 shadow-sm p-6 relative overflow-hidden sticky top-[500px]">
               <div className="absolute top-0 right-0 w-24 h-24 bg-indigo-50 rounded-bl-full -mr-4 -mt-4 opacity-50"></div>
               <h3 className="text-md font-bold text-gray-900 mb-2 flex items-center z-10 relative">
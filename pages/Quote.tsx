@@ -0,0 +1,229 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Rule, ProductAttribute, PriceRule, ComponentModel, QuoteRule, LineItem, QuoteValidationResult } from '../types';
+import { deriveAttributes } from '../services/engine';
+import { formatPrice } from '../services/pricing';
+import { getQuoteModels, newLineItem, validateQuote, priceQuote } from '../services/quote';
+import LineItemEditor from '../components/LineItemEditor';
+
+interface QuoteProps {
+  rules: Rule[];
+  attributes: ProductAttribute[];
+  priceRules: PriceRule[];
+  components: ComponentModel[];
+  quoteRules: QuoteRule[];
+  quote: LineItem[];
+  setQuote: (quote: LineItem[]) => void;
+}
+
+const Quote: React.FC<QuoteProps> = ({ rules, attributes, priceRules, components, quoteRules, quote, setQuote }) => {
+  const models = useMemo(() => getQuoteModels({ attributes, rules, priceRules, components }), [attributes, rules, priceRules, components]);
+  const [validation, setValidation] = useState<QuoteValidationResult>({ isValid: true, lines: {}, violations: [] });
+  const [expanded, setExpanded] = useState<string | null>(quote[0]?.id ?? null);
+  const [newModel, setNewModel] = useState(models[0].id);
+
+  useEffect(() => {
+    let stale = false;
+    validateQuote(quote, models, quoteRules).then(result => {
+      if (!stale) setValidation(result);
+    });
+    return () => {
+      stale = true;
+    };
+  }, [quote, models, quoteRules]);
+
+  const price = priceQuote(quote, models);
+
+  const updateLine = (id: string, patch: Partial<LineItem>) =>
+    setQuote(quote.map(line => line.id === id ? { ...line, ...patch } : line));
+
+  const handleAddLine = () => {
+    const model = models.find(m => m.id === newModel);
+    if (!model) return;
+    const line = newLineItem(model);
+    setQuote([...quote, line]);
+    setExpanded(line.id);
+  };
+
+  const lineName = (id: string) => {
+    const idx = quote.findIndex(line => line.id === id);
+    const model = models.find(m => m.id === quote[idx]?.model);
+    return `#${idx + 1} ${model?.name ?? ''}`;
+  };
+
+  const errors = validation.violations.filter(v => v.severity === 'error');
+  const warnings = validation.violations.filter(v => v.severity === 'warning');
+  const invalidLines = quote.filter(line => validation.lines[line.id] && !validation.lines[line.id].isValid);
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 py-8">
+      <div className="mb-8 bg-white p-4 rounded-lg border border-gray-200 shadow-sm">
+        <h2 className="text-xl font-bold text-gray-900">Quote</h2>
+        <p className="text-xs text-gray-500">
+          Each line is configured against its own product model; cross-item rules check the quote as a whole.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        {/* Line Items */}
+        <div className="lg:col-span-2 space-y-3">
+          {quote.length === 0 && (
+            <div className="bg-white rounded-lg border border-gray-200 p-8 text-center text-gray-500 text-sm">
+              The quote is empty. Add a line item below.
+            </div>
+          )}
+
+          {quote.map((line, idx) => {
+            const model = models.find(m => m.id === line.model);
+            const result = validation.lines[line.id];
+            const lineErrors = result?.violations.filter(v => v.severity === 'error') || [];
+            const lineWarnings = result?.violations.filter(v => v.severity === 'warning') || [];
+            const crossItem = validation.violations.filter(v => v.line_ids.includes(line.id));
+            const { config: derived, derived: derivedIds } = deriveAttributes(line.config, model?.rules || []);
+            const isOpen = expanded === line.id;
+
+            return (
+              <div key={line.id} className={`bg-white rounded-lg shadow-sm border ${lineErrors.length > 0 ? 'border-red-200' : 'border-gray-200'}`}>
+                <div className="flex items-center px-4 py-3 space-x-3">
+                  <button onClick={() => setExpanded(isOpen ? null : line.id)} className="text-gray-400 hover:text-indigo-600 w-4" title={isOpen ? 'Collapse' : 'Configure'}>
+                    {isOpen ? '▾' : '▸'}
+                  </button>
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm font-medium text-gray-900">
+                      <span className="text-gray-400 mr-1">#{idx + 1}</span>
+                      {model?.name ?? `Unknown model "${line.model}"`}
+                    </div>
+                    <div className="text-xs text-gray-500 truncate">{price.lines[idx]?.description || 'Nothing selected yet'}</div>
+                  </div>
+                  {lineErrors.length > 0 ? (
+                    <span className="text-xs font-medium text-red-700 bg-red-50 px-2 py-0.5 rounded-full">{lineErrors.length} error{lineErrors.length === 1 ? '' : 's'}</span>
+                  ) : lineWarnings.length > 0 ? (
+                    <span className="text-xs font-medium text-yellow-700 bg-yellow-50 px-2 py-0.5 rounded-full">{lineWarnings.length} warning{lineWarnings.length === 1 ? '' : 's'}</span>
+                  ) : result && (
+                    <span className="text-xs font-medium text-green-700 bg-green-50 px-2 py-0.5 rounded-full">Valid</span>
+                  )}
+                  <label className="flex items-center text-xs text-gray-500">
+                    Qty
+                    <input
+                      type="number"
+                      min={1}
+                      step={1}
+                      className="ml-1 w-16 px-2 py-1 border border-gray-300 rounded text-xs"
+                      value={line.quantity}
+                      onChange={(e) => updateLine(line.id, { quantity: Math.max(1, Math.round(Number(e.target.value) || 1)) })}
+                    />
+                  </label>
+                  <span className="w-24 text-right text-sm font-medium text-gray-900">{formatPrice(price.lines[idx]?.total ?? 0)}</span>
+                  <button onClick={() => setQuote(quote.filter(l => l.id !== line.id))} className="text-gray-400 hover:text-red-600" title="Remove line">×</button>
+                </div>
+
+                {isOpen && (
+                  <div className="border-t border-gray-100 px-4 py-3 space-y-3">
+                    {model && (
+                      <LineItemEditor
+                        attributes={model.attributes}
+                        config={line.config}
+                        derived={derived}
+                        derivedIds={derivedIds}
+                        onChange={(config) => updateLine(line.id, { config })}
+                      />
+                    )}
+                    {[...lineErrors, ...lineWarnings].length > 0 && (
+                      <ul className="text-xs space-y-1">
+                        {[...lineErrors, ...lineWarnings].map((v, i) => (
+                          <li key={i} className={v.severity === 'error' ? 'text-red-700' : 'text-yellow-700'}>
+                            <span className="font-mono mr-1">{v.rule_id}</span>{v.message}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                )}
+                {crossItem.length > 0 && (
+                  <div className="border-t border-gray-100 px-4 py-2 text-xs text-orange-700">
+                    Involved in: {crossItem.map(v => v.rule_id).join(', ')}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+
+          <div className="flex items-center space-x-2">
+            <select
+              className="px-2 py-1.5 border border-gray-300 rounded text-sm bg-white"
+              value={newModel}
+              onChange={(e) => setNewModel(e.target.value)}
+            >
+              {models.map(m => (
+                <option key={m.id} value={m.id}>{m.name}</option>
+              ))}
+            </select>
+            <button onClick={handleAddLine} className="bg-indigo-600 text-white px-3 py-1.5 rounded text-sm hover:bg-indigo-700 transition-colors">
+              + Add line
+            </button>
+          </div>
+        </div>
+
+        {/* Status and Bill of Materials */}
+        <div className="space-y-6">
+          <div className={`rounded-lg border p-4 ${validation.isValid ? (warnings.length > 0 ? 'bg-yellow-50 border-yellow-200' : 'bg-green-50 border-green-200') : 'bg-red-50 border-red-200'}`}>
+            <h3 className={`font-bold ${validation.isValid ? (warnings.length > 0 ? 'text-yellow-800' : 'text-green-800') : 'text-red-800'}`}>
+              {validation.isValid ? (warnings.length > 0 ? 'Quote Valid with Warnings' : 'Quote Valid') : 'Quote Invalid'}
+            </h3>
+            {invalidLines.length > 0 && (
+              <p className="text-sm text-red-700 mt-1">
+                {invalidLines.length} line{invalidLines.length === 1 ? '' : 's'} with errors: {invalidLines.map(line => lineName(line.id)).join(', ')}
+              </p>
+            )}
+            {[...errors, ...warnings].length > 0 && (
+              <ul className="mt-3 space-y-2">
+                {[...errors, ...warnings].map(v => (
+                  <li key={v.rule_id} className={`text-sm ${v.severity === 'error' ? 'text-red-800' : 'text-yellow-800'}`}>
+                    {v.message}
+                    <span className="block text-xs opacity-75">
+                      {v.rule_id} · {v.line_ids.map(lineName).join(', ')}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+            <h3 className="text-sm font-semibold text-gray-900 mb-3">Bill of Materials</h3>
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-gray-500 text-left">
+                  <th className="font-medium pb-1">Item</th>
+                  <th className="font-medium pb-1 text-right">Qty</th>
+                  <th className="font-medium pb-1 text-right">Unit</th>
+                  <th className="font-medium pb-1 text-right">Total</th>
+                </tr>
+              </thead>
+              <tbody>
+                {price.lines.map(row => (
+                  <tr key={row.line_id} className="border-t border-gray-100 align-top">
+                    <td className="py-1.5 pr-2">
+                      <div className="text-gray-900">{row.label}</div>
+                      {row.description && <div className="text-gray-400">{row.description}</div>}
+                    </td>
+                    <td className="py-1.5 text-right">{row.quantity}</td>
+                    <td className="py-1.5 text-right">{formatPrice(row.unitPrice)}</td>
+                    <td className="py-1.5 text-right font-medium">{formatPrice(row.total)}</td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot>
+                <tr className="border-t border-gray-300">
+                  <td colSpan={3} className="pt-2 font-semibold text-gray-900">Quote total</td>
+                  <td className="pt-2 text-right font-bold text-gray-900">{formatPrice(price.total)}</td>
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Quote;
@@ -0,0 +1,204 @@
+// Local HTTP API over the rule engines, for embedding in other systems.
+//
+//   npm run api -- [--project project.json] [--port 8787] [--host 127.0.0.1] [--cors <origin>] [--timeout 30]
+//
+// The server listens on localhost only unless --host says otherwise, and sends CORS headers
+// only for the origin given with --cors. The PUT routes replace the knowledge base without
+// any login, so by default no other machine or web page can reach them.
+//
+//   GET  /project              the loaded ProjectData
+//   PUT  /project              replace the whole project (ProjectData)
+//   PUT  /project/rules        replace the rules (Rule[])
+//   PUT  /project/attributes   replace the attributes (ProductAttribute[])
+//   POST /validate             { config, engine? } -> ValidationResult
+//   POST /domains              { config, engine? } -> AttributeDomains
+//   POST /complete             { config }          -> CompletionResult (always Z3)
+//   POST /quote                { lines?, engine? } -> { validation, price } (lines default to the project's quote)
+//
+// The engine is 'deterministic' (default) or 'z3', taken from the body or the ?engine= query.
+// Errors come back as { error, details? } with a 4xx/5xx status; a Z3 check that takes longer
+// than --timeout seconds is interrupted and answered with 504.
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { readFileSync } from 'node:fs';
+import { Configuration, LineItem, ProjectData } from '../types';
+import { validateDeterministic, computeDomainsDeterministic, deriveAttributes } from '../services/engine';
+import { Z3SatEngine, Z3Timeout, validateZ3, computeDomainsZ3, completeZ3, setZ3TimeLimit } from '../services/z3Service';
+import { migrateProject, validateProjectData } from '../services/projectFormat';
+import { createSampleProject } from '../services/storage';
+import { getQuoteModels, validateQuote, priceQuote } from '../services/quote';
+
+type Engine = 'deterministic' | 'z3';
+
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+
+class HttpError extends Error {
+  constructor(public status: number, message: string, public details?: unknown) {
+    super(message);
+  }
+}
+
+const arg = (name: string): string | undefined => {
+  const idx = process.argv.indexOf(`--${name}`);
+  return idx !== -1 ? process.argv[idx + 1] : undefined;
+};
+
+// Upgrades and strictly validates project data, as an import in the app does
+const parseProject = (raw: unknown): ProjectData => {
+  const { data } = migrateProject(raw);
+  const errors = validateProjectData(data);
+  if (errors.length > 0) throw new HttpError(400, 'Invalid project data', errors);
+  return data;
+};
+
+let project: ProjectData = (() => {
+  const path = arg('project');
+  if (!path) return createSampleProject();
+  return parseProject(JSON.parse(readFileSync(path, 'utf8')));
+})();
+
+const z3Engine = new Z3SatEngine();
+setZ3TimeLimit(Number(arg('timeout') || 30) * 1000);
+
+const corsOrigin = arg('cors');
+
+const readBody = (req: IncomingMessage): Promise<any> => new Promise((resolve, reject) => {
+  let size = 0;
+  const chunks: Buffer[] = [];
+  req.on('data', (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      reject(new HttpError(413, 'Request body too large'));
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => {
+    const text = Buffer.concat(chunks).toString('utf8');
+    if (text.trim() === '') return resolve({});
+    try {
+      resolve(JSON.parse(text));
+    } catch {
+      reject(new HttpError(400, 'Request body is not valid JSON'));
+    }
+  });
+  req.on('error', reject);
+});
+
+const corsHeaders = (): Record<string, string> => corsOrigin ? {
+  'Access-Control-Allow-Origin': corsOrigin,
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type'
+} : {};
+
+const send = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...corsHeaders() });
+  res.end(JSON.stringify(body));
+};
+
+const engineOf = (body: any, url: URL): Engine => {
+  const engine = body.engine ?? url.searchParams.get('engine') ?? 'deterministic';
+  if (engine !== 'deterministic' && engine !== 'z3') throw new HttpError(400, `Unknown engine "${engine}" (use deterministic or z3)`);
+  return engine;
+};
+
+const configOf = (body: any): Configuration => {
+  const config = body.config;
+  if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+    throw new HttpError(400, 'Body must contain a "config" object');
+  }
+  return config;
+};
+
+const linesOf = (body: any): LineItem[] => {
+  if (body.lines === undefined) return project.quote || [];
+  const errors = validateProjectData({ ...project, quote: body.lines });
+  if (errors.length > 0) throw new HttpError(400, 'Invalid quote lines', errors);
+  return body.lines;
+};
+
+const handle = async (req: IncomingMessage, url: URL): Promise<[number, unknown]> => {
+  const route = `${req.method} ${url.pathname.replace(/\/+$/, '')}`;
+  const body = req.method === 'POST' || req.method === 'PUT' ? await readBody(req) : {};
+  // PUT /project/rules and /project/attributes take a list; everything else an object
+  if (typeof body !== 'object' || body === null) throw new HttpError(400, 'Request body must be a JSON object or list');
+  const { rules, attributes } = project;
+
+  switch (route) {
+    case 'GET /project':
+      return [200, project];
+
+    case 'PUT /project':
+      project = parseProject(body);
+      return [200, project];
+
+    case 'PUT /project/rules':
+      project = parseProject({ ...project, rules: body });
+      return [200, project.rules];
+
+    case 'PUT /project/attributes':
+      project = parseProject({ ...project, attributes: body });
+      return [200, project.attributes];
+
+    // The Z3 routes call the queued checks directly, so a timeout or failure becomes an HTTP error
+    case 'POST /validate': {
+      const config = configOf(body);
+      return [200, engineOf(body, url) === 'z3'
+        ? await validateZ3(config, rules, attributes)
+        : validateDeterministic(config, rules, attributes)];
+    }
+
+    case 'POST /domains': {
+      // Derived attributes are filled in first, as in the Configurator
+      const config = deriveAttributes(configOf(body), rules).config;
+      return [200, engineOf(body, url) === 'z3'
+        ? await computeDomainsZ3(config, rules, attributes)
+        : computeDomainsDeterministic(config, rules, attributes)];
+    }
+
+    case 'POST /complete':
+      // Completion needs a model, which only the Z3 engine produces
+      return [200, await completeZ3(configOf(body), rules, attributes)];
+
+    case 'POST /quote': {
+      const lines = linesOf(body);
+      const models = getQuoteModels(project);
+      const engine = engineOf(body, url) === 'z3' ? z3Engine : undefined;
+      return [200, {
+        validation: await validateQuote(lines, models, project.quoteRules || [], engine),
+        price: priceQuote(lines, models)
+      }];
+    }
+
+    default:
+      throw new HttpError(404, `No route for ${route}`);
+  }
+};
+
+const server = createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, corsHeaders());
+    return res.end();
+  }
+  const url = new URL(req.url || '/', 'http://localhost');
+  try {
+    const [status, body] = await handle(req, url);
+    send(res, status, body);
+  } catch (e) {
+    if (e instanceof HttpError) {
+      send(res, e.status, { error: e.message, details: e.details });
+    } else if (e instanceof Z3Timeout) {
+      send(res, 504, { error: e.message });
+    } else {
+      console.error(e);
+      send(res, 500, { error: 'Internal error, see server log' });
+    }
+  }
+});
+
+const port = Number(arg('port') || process.env.PORT || 8787);
+const host = arg('host') || '127.0.0.1';
+server.listen(port, host, () => {
+  console.log(`CPQ API listening on http://${host}:${port} (${project.attributes.length} attributes, ${project.rules.length} rules)`);
+  if (corsOrigin) console.log(`Cross-origin requests allowed from ${corsOrigin}`);
+});
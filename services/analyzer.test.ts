@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { Rule, ProductAttribute } from '../types';
+import { analyzeKnowledgeBase } from './analyzer';
+import { ATTRIBUTES, INITIAL_RULES } from './mockData';
+
+// The first call loads the Z3 wasm module
+const Z3_TIMEOUT = 60000;
+
+const rule = (id: string, patch: Partial<Rule>): Rule => ({
+  id,
+  natural_text: id,
+  type: 'exclusion',
+  condition: { attribute: 'acc', operator: 'contains', value: 'a' },
+  priority: 50,
+  confidence: 1,
+  approved: true,
+  created_at: '2024-01-01T00:00:00.000Z',
+  ...patch
+});
+
+const accessories = (patch: Partial<ProductAttribute> = {}): ProductAttribute => ({
+  id: 'acc',
+  name: 'Accessories',
+  type: 'multi',
+  options: [{ label: 'A', value: 'a' }, { label: 'B', value: 'b' }, { label: 'C', value: 'c' }],
+  ...patch
+});
+
+describe('analyzeKnowledgeBase', () => {
+  it('finds the sample rules consistent', async () => {
+    const report = await analyzeKnowledgeBase(INITIAL_RULES, ATTRIBUTES);
+    expect(report.consistent).toBe(true);
+    expect(report.issues.filter(i => i.kind === 'unsatisfiable')).toEqual([]);
+  }, Z3_TIMEOUT);
+
+  it('reports rules that no configuration satisfies together', async () => {
+    const rules = [
+      rule('needs-a', { type: 'implication', condition: { attribute: 'acc', operator: 'count>=', value: 0 }, consequence: { attribute: 'acc', operator: 'contains', value: 'a' } }),
+      rule('no-a', {})
+    ];
+    const report = await analyzeKnowledgeBase(rules, [accessories()]);
+    expect(report.consistent).toBe(false);
+    expect(report.issues).toHaveLength(1);
+    expect(report.issues[0]).toMatchObject({ kind: 'unsatisfiable' });
+    expect([...report.issues[0].rule_ids].sort()).toEqual(['needs-a', 'no-a']);
+  }, Z3_TIMEOUT);
+
+  it('stops with a model-level issue when the attributes alone are unsatisfiable', async () => {
+    const report = await analyzeKnowledgeBase([rule('no-a', {})], [accessories({ required: true, min: 4 })]);
+    expect(report.consistent).toBe(false);
+    expect(report.issues).toHaveLength(1);
+    expect(report.issues[0]).toMatchObject({ kind: 'unsatisfiable', rule_ids: [] });
+  }, Z3_TIMEOUT);
+
+  it('reports a multi-select option a rule excludes, and only that one', async () => {
+    const report = await analyzeKnowledgeBase([rule('no-c', { condition: { attribute: 'acc', operator: 'contains', value: 'c' } })], [accessories({ min: 2 })]);
+    const dead = report.issues.filter(i => i.kind === 'dead_option');
+    expect(dead.map(i => [i.value, i.rule_ids])).toEqual([['c', ['no-c']]]);
+  }, Z3_TIMEOUT);
+
+  it('explains an option outside its attribute\'s range without blaming a rule', async () => {
+    const power: ProductAttribute = {
+      id: 'hp', name: 'Power', type: 'number', required: true, min: 1, max: 15,
+      options: [{ label: '5 HP', value: 5 }, { label: '20 HP', value: 20 }]
+    };
+    const report = await analyzeKnowledgeBase([], [power]);
+    const dead = report.issues.filter(i => i.kind === 'dead_option');
+    expect(dead).toHaveLength(1);
+    expect(dead[0]).toMatchObject({ value: 20, rule_ids: [] });
+    expect(dead[0].message).not.toContain('because of');
+  }, Z3_TIMEOUT);
+});
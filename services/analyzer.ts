@@ -0,0 +1,127 @@
+import { Rule, ProductAttribute, ConsistencyIssue, ConsistencyReport } from '../types';
+import { initZ3, enqueueZ3, buildTrackedSolver, minimizeCore, TrackedAssumption } from './z3Service';
+
+const ruleIds = (assumptions: TrackedAssumption[]) =>
+    assumptions.filter(a => a.kind === 'rule').map(a => a.rule!.id);
+
+// Static analysis of the approved rules with Z3, independent of any configuration:
+//  - unsatisfiable:  a set of rules that no configuration can satisfy together
+//  - dead_rule:      a rule whose condition can never be true under the other rules
+//  - redundant_rule: a rule already implied by other rules
+//  - dead_option:    an attribute option that no valid configuration can select
+// Soft rules are left out, since breaking them is allowed.
+const analyze = async (
+    rules: Rule[],
+    attributes: ProductAttribute[]
+): Promise<ConsistencyReport> => {
+    const Context = await initZ3();
+    const { Bool, Implies, Not } = Context;
+
+    const issues: ConsistencyIssue[] = [];
+    const { solver, encoding, assumptions } = buildTrackedSolver({}, rules, attributes);
+
+    // 1. Conflicting rule sets. Like validateZ3, set each core aside to find independent ones.
+    let active = assumptions;
+    while (await solver.check(...active.map(a => a.literal)) === 'unsat') {
+        const core = await minimizeCore(solver, active);
+
+        // The attributes' own options, ranges and pick counts leave nothing to choose
+        if (ruleIds(core).length === 0) {
+            issues.push({
+                kind: 'unsatisfiable',
+                message: 'The product model has no valid configuration even without rules: check the attributes\' options, ranges and minimum picks.',
+                rule_ids: []
+            });
+            break;
+        }
+
+        issues.push({
+            kind: 'unsatisfiable',
+            message: `No configuration can satisfy these rules together: ${ruleIds(core).join(', ')}.`,
+            rule_ids: ruleIds(core)
+        });
+        active = active.filter(a => !core.includes(a));
+    }
+
+    // The remaining checks are only meaningful against a satisfiable rule set
+    if (issues.length > 0) {
+        return { consistent: false, issues, checkedAt: new Date().toISOString() };
+    }
+
+    for (const tracked of assumptions) {
+        const rule = tracked.rule!;
+        const others = assumptions.filter(a => a !== tracked);
+        const otherLiterals = others.map(a => a.literal);
+
+        try {
+            // 2. Can the condition ever hold?
+            const fires = Bool.const(`fires::${rule.id}`);
+            solver.add(Implies(fires, encoding.toZ3(rule.condition)));
+            const firesAssumption: TrackedAssumption = { literal: fires, kind: 'selection' };
+
+            if (await solver.check(...otherLiterals, fires) === 'unsat') {
+                const core = await minimizeCore(solver, [...others, firesAssumption]);
+                const blockers = ruleIds(core);
+                issues.push({
+                    kind: 'dead_rule',
+                    message: blockers.length > 0
+                        ? `Rule ${rule.id} can never fire because of ${blockers.join(', ')}.`
+                        : `Rule ${rule.id} can never fire: its condition is impossible for the product model.`,
+                    rule_ids: [rule.id, ...blockers]
+                });
+                continue;
+            }
+
+            // 3. Is it implied by the rest?
+            const violated = Bool.const(`violated::${rule.id}`);
+            solver.add(Implies(violated, Not(encoding.ruleToZ3(rule))));
+            const violatedAssumption: TrackedAssumption = { literal: violated, kind: 'selection' };
+
+            if (await solver.check(...otherLiterals, violated) === 'unsat') {
+                const core = await minimizeCore(solver, [...others, violatedAssumption]);
+                const implying = ruleIds(core);
+                issues.push({
+                    kind: 'redundant_rule',
+                    message: implying.length > 0
+                        ? `Rule ${rule.id} is already implied by ${implying.join(', ')}.`
+                        : `Rule ${rule.id} always holds for the product model.`,
+                    rule_ids: [rule.id, ...implying]
+                });
+            }
+        } catch (e) {
+            console.warn(`Skipping analysis of rule ${rule.id}`, e);
+        }
+    }
+
+    // 4. Options that no valid configuration can select
+    const allLiterals = assumptions.map(a => a.literal);
+    for (const attr of attributes) {
+        for (const opt of attr.options || []) {
+            const literal = Bool.const(`option::${attr.id}::${String(opt.value)}`);
+            // A multi-select option only has to be among the picks, not the whole selection
+            solver.add(Implies(literal, attr.type === 'multi'
+                ? encoding.toZ3({ attribute: attr.id, operator: 'contains', value: opt.value })
+                : encoding.selectionToZ3(attr.id, opt.value)));
+
+            if (await solver.check(...allLiterals, literal) === 'unsat') {
+                const core = await minimizeCore(solver, [...assumptions, { literal, kind: 'selection', attribute: attr.id }]);
+                const blockers = ruleIds(core);
+                issues.push({
+                    kind: 'dead_option',
+                    message: blockers.length > 0
+                        ? `${attr.name} = ${opt.label} can never be selected because of ${blockers.join(', ')}.`
+                        : `${attr.name} = ${opt.label} can never be selected: it is outside the attribute's own limits.`,
+                    rule_ids: blockers,
+                    attribute: attr.id,
+                    value: opt.value
+                });
+            }
+        }
+    }
+
+    return { consistent: true, issues, checkedAt: new Date().toISOString() };
+};
+
+// Waits for its turn on the shared Z3 context like every other check
+export const analyzeKnowledgeBase = (rules: Rule[], attributes: ProductAttribute[]) =>
+    enqueueZ3(() => analyze(rules, attributes));
@@ -0,0 +1,101 @@
+import { AuditEvent, AuditAction, Rule } from '../types';
+import { formatRule } from './expressions';
+
+let sequence = 0;
+const newEventId = () => `audit-${Date.now().toString(36)}-${(sequence++).toString(36)}`;
+
+export const createAuditEvent = (
+  action: AuditAction,
+  target: AuditEvent['target'],
+  actor: string,
+  before?: Rule,
+  after?: Rule
+): AuditEvent => {
+  const rule = (after || before)!;
+  return {
+    id: newEventId(),
+    rule_id: rule.id,
+    action,
+    target,
+    actor,
+    timestamp: new Date().toISOString(),
+    before,
+    after,
+    source_doc: rule.source_doc
+  };
+};
+
+// One event per rule that was added, changed or removed between two versions of the
+// knowledge base. Used for bulk changes such as imports and restores.
+export const diffRules = (before: Rule[], after: Rule[], action: AuditAction, actor: string): AuditEvent[] => {
+  const events: AuditEvent[] = [];
+  for (const rule of after) {
+    const previous = before.find(r => r.id === rule.id);
+    if (!previous || JSON.stringify(previous) !== JSON.stringify(rule)) {
+      events.push(createAuditEvent(action, 'rule', actor, previous, rule));
+    }
+  }
+  for (const rule of before) {
+    if (!after.some(r => r.id === rule.id)) {
+      events.push(createAuditEvent(action, 'rule', actor, rule, undefined));
+    }
+  }
+  return events;
+};
+
+// The knowledge base as it stood right after the given event, obtained by undoing every
+// later knowledge-base event against the current rules
+export const rulesAsOf = (rules: Rule[], log: AuditEvent[], eventId: string): Rule[] => {
+  const stop = log.findIndex(e => e.id === eventId);
+  const result = [...rules];
+  for (let i = log.length - 1; i > stop; i--) {
+    const event = log[i];
+    if (event.target !== 'rule') continue;
+
+    const idx = result.findIndex(r => r.id === event.rule_id);
+    if (event.before) {
+      if (idx === -1) result.push(event.before);
+      else result[idx] = event.before;
+    } else if (idx !== -1) {
+      result.splice(idx, 1);
+    }
+  }
+  return result;
+};
+
+// Source passages can be long, so changes to them show only the start
+const clip = (text: string | undefined, max = 60) => !text ? '' : text.length > max ? `${text.slice(0, max)}…` : text;
+
+// Field-level summary of what an event changed, for display next to the event
+export const describeChange = (event: AuditEvent): string[] => {
+  const { before, after } = event;
+  if (!before || !after) return [];
+
+  const changes: string[] = [];
+  if (before.natural_text !== after.natural_text) {
+    changes.push(`Text: "${before.natural_text}" → "${after.natural_text}"`);
+  }
+  if (formatRule(before) !== formatRule(after)) {
+    changes.push(`Logic: ${formatRule(before)} → ${formatRule(after)}`);
+  }
+  // A missing strength means hard, so adding the field explicitly is no change
+  if ((before.strength || 'hard') !== (after.strength || 'hard')) {
+    changes.push(`Strength: ${before.strength || 'hard'} → ${after.strength || 'hard'}`);
+  }
+  if (before.priority !== after.priority) {
+    changes.push(`Priority: ${before.priority} → ${after.priority}`);
+  }
+  if (before.confidence !== after.confidence) {
+    changes.push(`Confidence: ${before.confidence} → ${after.confidence}`);
+  }
+  if (before.source_doc !== after.source_doc) {
+    changes.push(`Source: ${before.source_doc || 'Manual'} → ${after.source_doc || 'Manual'}`);
+  }
+  if (before.source_clause !== after.source_clause) {
+    changes.push(`Source clause: "${clip(before.source_clause)}" → "${clip(after.source_clause)}"`);
+  }
+  if (before.approved !== after.approved) {
+    changes.push(after.approved ? 'Activated' : 'Deactivated');
+  }
+  return changes;
+};
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { splitIntoClauses, chunkDocument } from './documents';
+
+const SPEC = `Cooling requirements for the motor range.
+
+# Scope
+These rules apply to every unit.
+
+3.2 Cooling
+Motors above 10 HP need at least 5000 BTU.
+
+Marine units always use the ACM-600.
+
+Section 4
+Warranty is optional.`;
+
+describe('splitIntoClauses', () => {
+  it('labels clauses by heading, numbered clause and paragraph', () => {
+    expect(splitIntoClauses(SPEC).map(c => c.label)).toEqual(['¶1', 'Scope', '3.2', '3.2 ¶2', '4']);
+  });
+
+  it('keeps a short numbered title with the paragraph below it', () => {
+    const clause = splitIntoClauses(SPEC).find(c => c.label === '3.2');
+    expect(clause?.text).toBe('3.2 Cooling\nMotors above 10 HP need at least 5000 BTU.');
+  });
+
+  it('labels a document without structure by paragraph', () => {
+    expect(splitIntoClauses('One.\r\n\r\nTwo.\n\n\nThree.').map(c => [c.label, c.text])).toEqual([['¶1', 'One.'], ['¶2', 'Two.'], ['¶3', 'Three.']]);
+  });
+});
+
+describe('chunkDocument', () => {
+  it('keeps a short document in one chunk with every clause tagged', () => {
+    const chunks = chunkDocument(SPEC);
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].clauses).toHaveLength(5);
+    expect(chunks[0].text).toContain('[3.2 ¶2]\nMarine units always use the ACM-600.');
+  });
+
+  it('packs clauses into chunks of at most the given size', () => {
+    const text = Array.from({ length: 12 }, (_, i) => `${i + 1}. ${'Requirement text. '.repeat(5)}`).join('\n\n');
+    const chunks = chunkDocument(text, 300);
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.forEach(chunk => expect(chunk.text.length).toBeLessThanOrEqual(300));
+    expect(chunks.flatMap(c => c.clauses.map(cl => cl.label))).toEqual(Array.from({ length: 12 }, (_, i) => String(i + 1)));
+  });
+
+  it('splits an oversized clause into labelled parts', () => {
+    const chunks = chunkDocument(`7.1 ${'A long sentence about cooling. '.repeat(20)}`, 200);
+    const labels = chunks.flatMap(c => c.clauses.map(cl => cl.label));
+    expect(labels[0]).toBe('7.1 (part 1)');
+    expect(labels.length).toBeGreaterThan(2);
+    chunks.flatMap(c => c.clauses).forEach(clause => expect(clause.text.length).toBeLessThanOrEqual(200));
+  });
+});
@@ -0,0 +1,216 @@
+import { DocumentClause, DocumentChunk } from '../types';
+
+// Upper bound for the document text in one extraction prompt
+export const MAX_CHUNK_CHARS = 6000;
+
+// --- Reading files -----------------------------------------------------------
+
+let pdfWorker: Worker | null = null;
+
+// Text of a text-based PDF, one line per text row and a blank line between paragraphs and pages.
+// pdf.js is loaded on first use, so it stays out of the main bundle.
+const readPdfText = async (data: ArrayBuffer): Promise<string> => {
+  const pdfjs = await import('pdfjs-dist');
+  if (!pdfWorker) {
+    pdfWorker = new Worker(new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url), { type: 'module' });
+    pdfjs.GlobalWorkerOptions.workerPort = pdfWorker;
+  }
+
+  const doc = await pdfjs.getDocument({ data: new Uint8Array(data) }).promise;
+  const pages: string[] = [];
+  try {
+    for (let n = 1; n <= doc.numPages; n++) {
+      const content = await (await doc.getPage(n)).getTextContent();
+      let text = '';
+      let lastY: number | null = null;
+      for (const item of content.items) {
+        if (!('str' in item) || item.str === '') continue;
+        const y = item.transform[5];
+        // A jump of more than about one and a half lines starts a new paragraph
+        if (lastY !== null && Math.abs(lastY - y) > 1) text += Math.abs(lastY - y) > item.height * 1.6 ? '\n\n' : '\n';
+        text += item.str;
+        lastY = y;
+      }
+      pages.push(text);
+    }
+  } finally {
+    await doc.destroy();
+  }
+  return pages.join('\n\n');
+};
+
+// Reads one file out of a zip archive (a .docx is one), inflating it with the browser's DecompressionStream
+const readZipEntry = async (data: ArrayBuffer, name: string): Promise<string | null> => {
+  const view = new DataView(data);
+  const decoder = new TextDecoder();
+
+  // The end of central directory record sits at the end, before an optional comment of up to 64 KB
+  let end = -1;
+  for (let i = data.byteLength - 22; i >= Math.max(0, data.byteLength - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) throw new Error('The file is not a valid .docx document.');
+
+  let pos = view.getUint32(end + 16, true);
+  for (let n = view.getUint16(end + 10, true); n > 0 && view.getUint32(pos, true) === 0x02014b50; n--) {
+    const method = view.getUint16(pos + 10, true);
+    const size = view.getUint32(pos + 20, true);
+    const nameLength = view.getUint16(pos + 28, true);
+    const entryName = decoder.decode(new Uint8Array(data, pos + 46, nameLength));
+
+    if (entryName === name) {
+      const local = view.getUint32(pos + 42, true);
+      const start = local + 30 + view.getUint16(local + 26, true) + view.getUint16(local + 28, true);
+      const bytes = new Uint8Array(data, start, size);
+      if (method === 0) return decoder.decode(bytes);
+      if (method !== 8) throw new Error(`Unsupported compression in ${name}.`);
+      return new Response(new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate-raw'))).text();
+    }
+    pos += 46 + nameLength + view.getUint16(pos + 30, true) + view.getUint16(pos + 32, true);
+  }
+  return null;
+};
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+const decodeXml = (text: string) =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] !== '#') return XML_ENTITIES[entity] ?? match;
+    return String.fromCodePoint(entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : Number(entity.slice(1)));
+  });
+
+// Paragraphs of word/document.xml separated by blank lines. Heading styles become Markdown
+// headings so the clause splitter sees the document's sections.
+const docxToText = (xml: string): string =>
+  (xml.match(/<w:p(?:\s[^>]*[^/>])?>[\s\S]*?<\/w:p>/g) || [])
+    .map(paragraph => {
+      const text = (paragraph.match(/<w:t(?:\s[^>]*)?>[^<]*<\/w:t>|<w:tab\/>|<w:br(?:\s[^>]*)?\/>/g) || [])
+        .map(token => token === '<w:tab/>' ? '\t' : token.startsWith('<w:br') ? '\n' : decodeXml(token.replace(/<[^>]+>/g, '')))
+        .join('');
+      const heading = paragraph.match(/<w:pStyle w:val="[Hh]eading ?(\d)"/);
+      return heading && text.trim() ? `${'#'.repeat(Number(heading[1]))} ${text}` : text;
+    })
+    .join('\n\n');
+
+// Plain text of an uploaded .txt, .md, .pdf or .docx file
+export const readDocument = async (file: File): Promise<string> => {
+  const extension = file.name.toLowerCase().split('.').pop() || '';
+  let text: string;
+
+  if (['txt', 'text', 'md', 'markdown'].includes(extension)) {
+    text = await file.text();
+  } else if (extension === 'pdf') {
+    text = await readPdfText(await file.arrayBuffer());
+  } else if (extension === 'docx') {
+    const xml = await readZipEntry(await file.arrayBuffer(), 'word/document.xml');
+    if (xml === null) throw new Error('The file is not a valid .docx document.');
+    text = docxToText(xml);
+  } else {
+    throw new Error(`Unsupported file type ".${extension}". Use a .txt, .md, .pdf or .docx file.`);
+  }
+
+  if (!text.trim()) {
+    throw new Error(extension === 'pdf' ? 'No text found in the PDF. Scanned documents need OCR first.' : 'The document is empty.');
+  }
+  return text;
+};
+
+// --- Clauses and chunks ------------------------------------------------------
+
+const MARKDOWN_HEADING = /^#{1,6}\s+(.+)$/;
+// "3.2 Cooling", "4. Marine units ...", "4) ...", "Section 7", "§ 2.1"
+const NUMBERED_CLAUSE = /^(\d+(?:\.\d+)+)\.?\s+\S|^(\d+)[.)]\s+\S|^(?:section|clause|article|§)\s*(\d+(?:\.\d+)*)\b/i;
+
+// Splits a document into labelled clauses. Headings and numbered clauses start a section;
+// within a section every paragraph is its own clause ("3.2", "3.2 ¶2", ...). Text outside any
+// section is labelled by paragraph ("¶1", "¶2", ...).
+export const splitIntoClauses = (text: string): DocumentClause[] => {
+  const clauses: DocumentClause[] = [];
+  let section = '';
+  let paragraph = 0;
+  let unlabelled = 0;
+  let lines: string[] = [];
+  let hasBody = false;
+
+  const flush = () => {
+    const body = lines.join('\n').trim();
+    if (body) {
+      paragraph++;
+      const label = !section ? `¶${++unlabelled}` : paragraph === 1 ? section : `${section} ¶${paragraph}`;
+      clauses.push({ label, text: body });
+    }
+    lines = [];
+    hasBody = false;
+  };
+
+  for (const line of text.replace(/\r\n?/g, '\n').split('\n')) {
+    const trimmed = line.trim();
+    const heading = trimmed.match(MARKDOWN_HEADING);
+    const numbered = heading ? null : trimmed.match(NUMBERED_CLAUSE);
+
+    if (heading || numbered) {
+      flush();
+      section = heading ? heading[1].trim() : numbered![1] || numbered![2] || numbered![3];
+      paragraph = 0;
+      lines.push(line);
+      // A short numbered title such as "3.2 Cooling" heads the paragraph below it
+      hasBody = !!numbered && (trimmed.split(/\s+/).length > 8 || /[.:;]$/.test(trimmed));
+    } else if (!trimmed) {
+      if (hasBody) flush();
+    } else {
+      lines.push(line);
+      hasBody = true;
+    }
+  }
+  flush();
+  return clauses;
+};
+
+// Cuts an oversized clause at sentence ends, or mid-sentence if one sentence alone is too long
+const splitLongClause = (clause: DocumentClause, maxChars: number): DocumentClause[] => {
+  if (clause.text.length <= maxChars) return [clause];
+
+  const pieces: string[] = [];
+  let current = '';
+  for (const sentence of clause.text.match(/[^.!?]+(?:[.!?]+\s*|$)/g) || [clause.text]) {
+    if (current && current.length + sentence.length > maxChars) {
+      pieces.push(current);
+      current = '';
+    }
+    for (let i = 0; i < sentence.length; i += maxChars) {
+      const part = sentence.slice(i, i + maxChars);
+      if (current.length + part.length > maxChars) {
+        pieces.push(current);
+        current = '';
+      }
+      current += part;
+    }
+  }
+  if (current) pieces.push(current);
+  return pieces.map((text, i) => ({ label: `${clause.label} (part ${i + 1})`, text: text.trim() }));
+};
+
+const renderClause = (clause: DocumentClause) => `[${clause.label}]\n${clause.text}`;
+
+// Splits a document into clauses and packs consecutive clauses into chunks of about maxChars
+export const chunkDocument = (text: string, maxChars: number = MAX_CHUNK_CHARS): DocumentChunk[] => {
+  const chunks: DocumentChunk[] = [];
+  let clauses: DocumentClause[] = [];
+  let size = 0;
+
+  for (const clause of splitIntoClauses(text).flatMap(c => splitLongClause(c, maxChars))) {
+    const length = renderClause(clause).length + 2;
+    if (clauses.length > 0 && size + length > maxChars) {
+      chunks.push({ text: clauses.map(renderClause).join('\n\n'), clauses });
+      clauses = [];
+      size = 0;
+    }
+    clauses.push(clause);
+    size += length;
+  }
+  if (clauses.length > 0) chunks.push({ text: clauses.map(renderClause).join('\n\n'), clauses });
+  return chunks;
+};
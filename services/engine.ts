@@ -1,10 +1,26 @@
-import { Configuration, Rule, ValidationResult, ValidationViolation, ProductAttribute } from '../types';
+import { Configuration, Rule, RuleExpression, ValidationResult, ValidationViolation, ProductAttribute, AttributeDomains } from '../types';
+import { isAndExpression, isOrExpression, isNotExpression, getExpressionAttributes, getRuleAttributes, isSoftRule } from './expressions';
+import { resolveValue } from './formula';
 
 export interface ValidationEngine {
   validate(config: Configuration, rules: Rule[], attributes: ProductAttribute[]): Promise<ValidationResult> | ValidationResult;
 }
 
+// Starting configuration for a model: every attribute that declares a default
+export const getDefaultConfig = (attributes: ProductAttribute[]): Configuration => {
+  const defaults: Configuration = {};
+  attributes.forEach(attr => {
+    if (attr.defaultValue !== undefined) {
+      defaults[attr.id] = attr.defaultValue;
+    }
+  });
+  return defaults;
+};
+
 export const evaluateCondition = (value: any, operator: string, target: any): boolean => {
+  // Nothing picked yet is an empty multi-select, which still has a count
+  if (operator === 'count>=') return (Array.isArray(value) ? value.length : 0) >= Number(target);
+  if (operator === 'count<=') return (Array.isArray(value) ? value.length : 0) <= Number(target);
   if (value === undefined || value === null) return false;
 
   switch (operator) {
@@ -15,31 +31,100 @@ export const evaluateCondition = (value: any, operator: string, target: any): bo
     case '==': return value == target; // Loose equality for flexibility
     case '!=': return value != target;
     case 'in': return Array.isArray(target) && target.includes(value);
+    case 'contains': return Array.isArray(value) && value.some(v => v == target);
+    case 'containsAny': return Array.isArray(value) && Array.isArray(target) && target.some(t => value.some(v => v == t));
     default: return false;
   }
 };
 
-export const validateDeterministic = (
+export const evaluateExpression = (expr: RuleExpression, config: Configuration): boolean => {
+  if (isAndExpression(expr)) return expr.and.every(e => evaluateExpression(e, config));
+  if (isOrExpression(expr)) return expr.or.some(e => evaluateExpression(e, config));
+  if (isNotExpression(expr)) return !evaluateExpression(expr.not, config);
+  return evaluateCondition(config[expr.attribute], expr.operator, resolveValue(expr.value, config));
+};
+
+// Applies approved hard assignment rules until nothing changes, so chained derivations settle.
+// Derived values override whatever was in the configuration for that attribute. Soft
+// assignments are recommendations and are only checked, never applied.
+export const deriveAttributes = (
   config: Configuration,
+  rules: Rule[]
+): { config: Configuration; derived: string[] } => {
+  const assignments = rules.filter(r => r.approved && !isSoftRule(r) && r.type === 'assignment' && r.assignment);
+  const derivedConfig: Configuration = { ...config };
+  const derived: string[] = [];
+
+  // Each pass can only enable further assignments, so rules.length passes are enough
+  for (let pass = 0; pass <= assignments.length; pass++) {
+    let changed = false;
+    for (const rule of assignments) {
+      const { attribute } = rule.assignment!;
+      // A computed value follows the attributes it refers to and waits until they are all set
+      const value = resolveValue(rule.assignment!.value, derivedConfig);
+      if (Number.isNaN(value)) continue;
+      if (derived.includes(attribute) && derivedConfig[attribute] != value) continue; // First writer wins; conflicts are reported by validation
+      if (!evaluateExpression(rule.condition, derivedConfig)) continue;
+
+      if (!derived.includes(attribute)) derived.push(attribute);
+      if (derivedConfig[attribute] !== value) {
+        derivedConfig[attribute] = value;
+        changed = true;
+      }
+    }
+    if (!changed) break;
+  }
+
+  return { config: derivedConfig, derived };
+};
+
+// Hard rules fail the configuration; soft rules only warn, weighted by their priority
+const severityOf = (rule: Rule): Pick<ValidationViolation, 'severity' | 'weight'> =>
+  isSoftRule(rule) ? { severity: 'warning', weight: rule.priority } : { severity: 'error' };
+
+// Tolerates float error, e.g. 0.3 is on the 0.1 grid
+const isOnStep = (value: number, base: number, step: number) => {
+  const steps = (value - base) / step;
+  return Math.abs(steps - Math.round(steps)) < 1e-9;
+};
+
+// An empty multi-select counts as not set, like an empty field
+const isUnset = (val: any) => val === undefined || val === null || val === '' || (Array.isArray(val) && val.length === 0);
+
+export const validateDeterministic = (
+  inputConfig: Configuration,
   rules: Rule[],
   attributes: ProductAttribute[] = []
 ): ValidationResult => {
   const violations: ValidationViolation[] = [];
+  const config = deriveAttributes(inputConfig, rules).config;
 
-  // 1. Schema Validation (Required Fields)
+  // 1. Schema Validation (Required Fields, number, quantity and pick-count ranges)
   for (const attr of attributes) {
-    if (attr.required) {
-      const val = config[attr.id];
-      const isEmpty = val === undefined || val === null || val === '';
-      if (isEmpty) {
-        violations.push({
-          rule_id: 'schema-validation',
-          message: `${attr.name} is required.`,
-          severity: 'error',
-          source: 'System Schema',
-          involvedAttributes: [attr.id]
-        });
-      }
+    const val = config[attr.id];
+    const schemaViolation = (message: string) => violations.push({
+      rule_id: 'schema-validation',
+      message,
+      severity: 'error',
+      source: 'System Schema',
+      involvedAttributes: [attr.id]
+    });
+
+    if (attr.required && isUnset(val)) {
+      schemaViolation(`${attr.name} is required.`);
+      continue;
+    }
+    // An optional multi-select may be left empty; its minimum applies once anything is picked
+    if (isUnset(val) || attr.type === 'string' || attr.type === 'boolean') continue;
+    const amount = attr.type === 'multi' ? (Array.isArray(val) ? val.length : 1) : Number(val);
+
+    const unit = (n: number) => attr.type === 'multi' ? (n === 1 ? ' option' : ' options') : attr.unit ? ` ${attr.unit}` : '';
+    if (attr.min !== undefined && amount < attr.min) {
+      schemaViolation(`${attr.name} needs at least ${attr.min}${unit(attr.min)}.`);
+    } else if (attr.max !== undefined && amount > attr.max) {
+      schemaViolation(`${attr.name} allows at most ${attr.max}${unit(attr.max)}.`);
+    } else if (attr.type === 'number' && attr.step && !isOnStep(amount, attr.min ?? 0, attr.step)) {
+      schemaViolation(`${attr.name} goes in steps of ${attr.step}${unit(attr.step)} from ${attr.min ?? 0}.`);
     }
   }
 
@@ -48,34 +133,44 @@ export const validateDeterministic = (
     if (!rule.approved) continue;
 
     try {
-      const conditionValue = config[rule.condition.attribute];
-      const conditionMet = evaluateCondition(conditionValue, rule.condition.operator, rule.condition.value);
+      const conditionMet = evaluateExpression(rule.condition, config);
 
       if (rule.type === 'implication') {
         // IF condition THEN consequence
         if (conditionMet && rule.consequence) {
-          const consequenceValue = config[rule.consequence.attribute];
-          const consequenceMet = evaluateCondition(consequenceValue, rule.consequence.operator, rule.consequence.value);
+          const consequenceMet = evaluateExpression(rule.consequence, config);
 
           if (!consequenceMet) {
             violations.push({
               rule_id: rule.id,
               message: rule.natural_text,
-              severity: 'error',
+              ...severityOf(rule),
               source: rule.source_doc,
-              involvedAttributes: [rule.condition.attribute, rule.consequence.attribute]
+              involvedAttributes: getRuleAttributes(rule)
             });
           }
         }
+      } else if (rule.type === 'assignment') {
+        // IF condition THEN attribute := value. Only fails when assignments disagree.
+        const expected = rule.assignment && resolveValue(rule.assignment.value, config);
+        if (conditionMet && rule.assignment && !Number.isNaN(expected) && config[rule.assignment.attribute] != expected) {
+          violations.push({
+            rule_id: rule.id,
+            message: rule.natural_text,
+            ...severityOf(rule),
+            source: rule.source_doc,
+            involvedAttributes: getRuleAttributes(rule)
+          });
+        }
       } else if (rule.type === 'exclusion') {
         // IF condition THEN invalid (Mutual Exclusion)
         if (conditionMet) {
           violations.push({
             rule_id: rule.id,
             message: rule.natural_text,
-            severity: 'error',
+            ...severityOf(rule),
             source: rule.source_doc,
-            involvedAttributes: [rule.condition.attribute]
+            involvedAttributes: getExpressionAttributes(rule.condition)
           });
         }
       }
@@ -85,10 +180,42 @@ export const validateDeterministic = (
   }
 
   return {
-    isValid: violations.length === 0,
+    isValid: !violations.some(v => v.severity === 'error'),
     violations
   };
 };
 
+// For every attribute the user has not set yet, tries each option against the approved rules.
+// An option is only ruled out when a violated hard rule references no other unset attribute,
+// i.e. nothing the user picks later could repair it. Anything less certain stays available.
+// Soft rules never rule out an option. A multi-select stays open while options are picked:
+// each option not picked yet is tried on top of the current picks.
+export const computeDomainsDeterministic = (
+  config: Configuration,
+  rules: Rule[],
+  attributes: ProductAttribute[]
+): AttributeDomains => {
+  const domains: AttributeDomains = {};
+
+  for (const attr of attributes) {
+    const isMulti = attr.type === 'multi';
+    if (!attr.options || (!isMulti && !isUnset(config[attr.id]))) continue;
+
+    const picked: any[] = isMulti && Array.isArray(config[attr.id]) ? config[attr.id] : [];
+    domains[attr.id] = attr.options.filter(opt => !picked.includes(opt.value)).map(opt => {
+      const candidate = { ...config, [attr.id]: isMulti ? [...picked, opt.value] : opt.value };
+      const excludedBy = validateDeterministic(candidate, rules)
+        .violations
+        .filter(v => v.severity === 'error' && v.involvedAttributes?.includes(attr.id))
+        .filter(v => v.involvedAttributes!.every(attrId => !isUnset(candidate[attrId])))
+        .map(v => v.rule_id);
+
+      return { value: opt.value, available: excludedBy.length === 0, excludedBy };
+    });
+  }
+
+  return domains;
+};
+
 // Default export for backward compatibility if needed, though we will update consumers
 export const validateConfiguration = validateDeterministic;
\ No newline at end of file
@@ -0,0 +1,97 @@
+import { Rule, RuleExpression, RuleCondition, AndExpression, OrExpression, NotExpression, ConditionOperator, ProductAttribute } from '../types';
+import { isComputedValue, formatFormula, getValueAttributes } from './formula';
+
+export const CONDITION_OPERATORS: ConditionOperator[] = ['==', '!=', '>', '>=', '<', '<=', 'in', 'contains', 'containsAny', 'count>=', 'count<='];
+
+const MULTI_OPERATORS: ConditionOperator[] = ['contains', 'containsAny', 'count>=', 'count<='];
+const RANGE_OPERATORS: ConditionOperator[] = ['>', '>=', '<', '<='];
+
+// Operators that make sense for an attribute: a multi-select is tested by membership and
+// by how many options are picked, only numeric attributes can be compared by range.
+export const operatorsFor = (attr: ProductAttribute | undefined): ConditionOperator[] => {
+  if (!attr) return CONDITION_OPERATORS;
+  if (attr.type === 'multi') return MULTI_OPERATORS;
+  const scalar: ConditionOperator[] = ['==', '!=', 'in'];
+  return attr.type === 'number' || attr.type === 'quantity' ? [...scalar, ...RANGE_OPERATORS] : scalar;
+};
+
+// Operators whose value is a list of options rather than a single value
+export const isListOperator = (op: ConditionOperator): boolean => op === 'in' || op === 'containsAny';
+
+export const isCountOperator = (op: ConditionOperator): boolean => op === 'count>=' || op === 'count<=';
+
+export const isRangeOperator = (op: ConditionOperator): boolean => RANGE_OPERATORS.includes(op);
+
+export const isAndExpression = (expr: RuleExpression): expr is AndExpression =>
+  Array.isArray((expr as AndExpression).and);
+
+export const isOrExpression = (expr: RuleExpression): expr is OrExpression =>
+  Array.isArray((expr as OrExpression).or);
+
+export const isNotExpression = (expr: RuleExpression): expr is NotExpression =>
+  (expr as NotExpression).not !== undefined && (expr as NotExpression).not !== null;
+
+export const isCondition = (expr: RuleExpression): expr is RuleCondition =>
+  !isAndExpression(expr) && !isOrExpression(expr) && !isNotExpression(expr);
+
+// Collects every attribute id referenced anywhere in the expression tree, including those inside
+// computed values (deduplicated, in order of appearance).
+export const getExpressionAttributes = (expr: RuleExpression | undefined, acc: string[] = []): string[] => {
+  if (!expr) return acc;
+
+  if (isAndExpression(expr)) {
+    expr.and.forEach(e => getExpressionAttributes(e, acc));
+  } else if (isOrExpression(expr)) {
+    expr.or.forEach(e => getExpressionAttributes(e, acc));
+  } else if (isNotExpression(expr)) {
+    getExpressionAttributes(expr.not, acc);
+  } else {
+    if (!acc.includes(expr.attribute)) acc.push(expr.attribute);
+    getValueAttributes(expr.value, acc);
+  }
+  return acc;
+};
+
+// Every attribute a rule touches: its condition, consequence and assigned attribute.
+export const getRuleAttributes = (rule: Rule): string[] => {
+  const acc = getExpressionAttributes(rule.consequence, getExpressionAttributes(rule.condition));
+  if (rule.assignment) {
+    if (!acc.includes(rule.assignment.attribute)) acc.push(rule.assignment.attribute);
+    getValueAttributes(rule.assignment.value, acc);
+  }
+  return acc;
+};
+
+export const isSoftRule = (rule: Rule): boolean => rule.strength === 'soft';
+
+// Human readable form used by the rule cards, e.g. "(environment == marine AND motor_hp >= 12)".
+export const formatExpression = (expr: RuleExpression, nested = false): string => {
+  const wrap = (s: string) => nested ? `(${s})` : s;
+
+  if (isAndExpression(expr)) {
+    return wrap(expr.and.map(e => formatExpression(e, true)).join(' AND '));
+  }
+  if (isOrExpression(expr)) {
+    return wrap(expr.or.map(e => formatExpression(e, true)).join(' OR '));
+  }
+  if (isNotExpression(expr)) {
+    return `NOT ${formatExpression(expr.not, true)}`;
+  }
+
+  return `${expr.attribute} ${expr.operator} ${formatValue(expr.value)}`;
+};
+
+export const formatValue = (value: any): string =>
+  Array.isArray(value) ? `[${value.join(', ')}]` : isComputedValue(value) ? formatFormula(value) : String(value);
+
+// One-line form of a whole rule, used where there is no room for the card layout (e.g. history entries)
+export const formatRule = (rule: Rule): string => {
+  const condition = rule.condition ? formatExpression(rule.condition) : '(missing)';
+  if (rule.type === 'assignment' && rule.assignment) {
+    return `IF ${condition} THEN ${rule.assignment.attribute} := ${formatValue(rule.assignment.value)}`;
+  }
+  if (rule.type === 'implication' && rule.consequence) {
+    return `IF ${condition} THEN ${formatExpression(rule.consequence)}`;
+  }
+  return `IF ${condition} → invalid`;
+};
@@ -0,0 +1,130 @@
+import { Configuration, ValueExpression, AttributeRef, ArithmeticExpression, ArithmeticOperator } from '../types';
+
+const FUNCTIONS: ArithmeticOperator[] = ['min', 'max'];
+
+export const isAttributeRef = (value: any): value is AttributeRef =>
+  typeof value === 'object' && value !== null && typeof value.ref === 'string';
+
+export const isArithmeticExpression = (value: any): value is ArithmeticExpression =>
+  typeof value === 'object' && value !== null && typeof value.op === 'string' && Array.isArray(value.args);
+
+// A rule value that has to be computed from the configuration rather than compared as is
+export const isComputedValue = (value: any): value is AttributeRef | ArithmeticExpression =>
+  isAttributeRef(value) || isArithmeticExpression(value);
+
+// Parses formulas such as "400 * motor_hp" or "max(a, b) + 10". × and ÷ are accepted
+// for * and /. Returns null for anything that is not a well-formed formula.
+export const parseFormula = (text: string): ValueExpression | null => {
+  const tokens = String(text).match(/\d+(?:\.\d+)?|[A-Za-z_]\w*|[-+*/×÷(),]|\S/g) || [];
+  let pos = 0;
+  const peek = () => tokens[pos];
+  const take = (expected?: string) => {
+    const token = tokens[pos];
+    if (token === undefined || (expected !== undefined && token !== expected)) throw new Error(`Expected ${expected ?? 'a value'}`);
+    pos++;
+    return token;
+  };
+
+  const sum = (): ValueExpression => {
+    let left = product();
+    while (peek() === '+' || peek() === '-') {
+      const op = take() as ArithmeticOperator;
+      left = { op, args: [left, product()] };
+    }
+    return left;
+  };
+
+  const product = (): ValueExpression => {
+    let left = factor();
+    while (['*', '/', '×', '÷'].includes(peek())) {
+      const token = take();
+      left = { op: token === '*' || token === '×' ? '*' : '/', args: [left, factor()] };
+    }
+    return left;
+  };
+
+  const factor = (): ValueExpression => {
+    const token = take();
+    if (token === '-') {
+      const inner = factor();
+      return typeof inner === 'number' ? -inner : { op: '-', args: [inner] };
+    }
+    if (token === '(') {
+      const inner = sum();
+      take(')');
+      return inner;
+    }
+    if (/^\d/.test(token)) return Number(token);
+    if (!/^[A-Za-z_]/.test(token)) throw new Error(`Unexpected "${token}"`);
+
+    if (FUNCTIONS.includes(token as ArithmeticOperator) && peek() === '(') {
+      take('(');
+      const args = [sum()];
+      while (peek() === ',') {
+        take(',');
+        args.push(sum());
+      }
+      take(')');
+      return { op: token as ArithmeticOperator, args };
+    }
+    return { ref: token };
+  };
+
+  try {
+    const result = sum();
+    return pos === tokens.length ? result : null;
+  } catch {
+    return null;
+  }
+};
+
+const PRECEDENCE: Record<string, number> = { '+': 1, '-': 1, '*': 2, '/': 2 };
+
+// Inverse of parseFormula, adding parentheses only where precedence needs them
+export const formatFormula = (value: ValueExpression, parentPrecedence = 0): string => {
+  if (typeof value === 'number') return String(value);
+  if (isAttributeRef(value)) return value.ref;
+  if (!isArithmeticExpression(value)) return String(value);
+
+  const { op, args } = value;
+  if (FUNCTIONS.includes(op)) return `${op}(${args.map(a => formatFormula(a)).join(', ')})`;
+  if (op === '-' && args.length === 1) return `-${formatFormula(args[0], 3)}`;
+
+  const precedence = PRECEDENCE[op];
+  // The right side of - and / binds tighter, so a - (b - c) keeps its parentheses
+  const text = args
+    .map((a, i) => formatFormula(a, i > 0 && (op === '-' || op === '/') ? precedence + 1 : precedence))
+    .join(` ${op} `);
+  return precedence < parentPrecedence ? `(${text})` : text;
+};
+
+// Attribute ids a value refers to, in order of appearance
+export const getValueAttributes = (value: any, acc: string[] = []): string[] => {
+  if (isAttributeRef(value)) {
+    if (!acc.includes(value.ref)) acc.push(value.ref);
+  } else if (isArithmeticExpression(value)) {
+    value.args.forEach(a => getValueAttributes(a, acc));
+  }
+  return acc;
+};
+
+// Literal values are returned as they are; formulas are evaluated against the configuration.
+// A formula over an attribute that is not set yields NaN, which no comparison matches.
+export const resolveValue = (value: any, config: Configuration): any => {
+  if (!isComputedValue(value)) return value;
+  if (isAttributeRef(value)) {
+    const raw = config[value.ref];
+    return raw === undefined || raw === null || raw === '' ? NaN : Number(raw);
+  }
+
+  const args = value.args.map(a => resolveValue(a, config) as number);
+  switch (value.op) {
+    case '+': return args.reduce((a, b) => a + b);
+    case '-': return args.length === 1 ? -args[0] : args.reduce((a, b) => a - b);
+    case '*': return args.reduce((a, b) => a * b);
+    case '/': return args.reduce((a, b) => a / b);
+    case 'min': return Math.min(...args);
+    case 'max': return Math.max(...args);
+    default: return NaN;
+  }
+};
@@ -1,5 +1,6 @@
 import { GoogleGenAI, Type } from '@google/genai';
-import { Rule, Configuration, ValidationViolation, ProductAttribute } from '../types';
+import { Rule, RuleExpression, Configuration, ValidationViolation, ProductAttribute, DocumentClause } from '../types';
+import { coerceRule } from './ruleSchema';
 
 // NOTE: In a real environment, this API key would come from a secure backend proxy or properly injected env var.
 // The prompt instructions specify using process.env.API_KEY directly.
@@ -30,17 +31,118 @@ const MOCK_EXTRACTED_RULES: Rule[] = [
     approved: false,
     created_at: new Date().toISOString(),
     source_doc: 'uploaded_reqs.txt'
+  },
+  {
+    id: `draft-${Date.now()}-3`,
+    natural_text: "Marine installations with a motor of 12HP or more require the ACM-600 Cooling Unit.",
+    type: 'implication',
+    condition: {
+      and: [
+        { attribute: 'environment', operator: '==', value: 'marine' },
+        { attribute: 'motor_hp', operator: '>=', value: 12 }
+      ]
+    },
+    consequence: { attribute: 'cooling_unit', operator: '==', value: 'ACM-600' },
+    priority: 50,
+    confidence: 0.88,
+    approved: false,
+    created_at: new Date().toISOString(),
+    source_doc: 'uploaded_reqs.txt'
   }
 ];
 
-export const extractRulesFromText = async (text: string, attributes: ProductAttribute[]): Promise<Rule[]> => {
+// Gemini response schemas cannot be recursive, so the expression schema is unrolled
+// to a fixed depth. Each node is either a leaf condition or one of and / or / not.
+const MAX_EXPRESSION_DEPTH = 3;
+
+const expressionSchema = (depth: number = MAX_EXPRESSION_DEPTH): any => {
+  const properties: Record<string, any> = {
+    attribute: { type: Type.STRING },
+    operator: { type: Type.STRING },
+    value: { type: Type.STRING } // Using string for flexibility in schema; coerceRule casts it or parses a formula
+  };
+  if (depth > 1) {
+    const child = expressionSchema(depth - 1);
+    properties.and = { type: Type.ARRAY, items: child };
+    properties.or = { type: Type.ARRAY, items: child };
+    properties.not = child;
+  }
+  return { type: Type.OBJECT, properties };
+};
+
+// Strips the empty branches the unrolled schema allows. Values are cast later by coerceRule.
+// A group that is empty or has a child that is not an expression is rejected as a whole,
+// since dropping one operand would silently widen or narrow the rule.
+const normalizeExpression = (raw: any): RuleExpression | undefined => {
+  if (!raw || typeof raw !== 'object') return undefined;
+
+  const normalizeGroup = (items: any[]): RuleExpression[] | undefined => {
+    const children = items.map(normalizeExpression);
+    return children.length > 0 && children.every(Boolean) ? children as RuleExpression[] : undefined;
+  };
+
+  if (Array.isArray(raw.and) && raw.and.length > 0) {
+    const and = normalizeGroup(raw.and);
+    return and && { and };
+  }
+  if (Array.isArray(raw.or) && raw.or.length > 0) {
+    const or = normalizeGroup(raw.or);
+    return or && { or };
+  }
+  if (raw.not && typeof raw.not === 'object') {
+    const inner = normalizeExpression(raw.not);
+    return inner ? { not: inner } : undefined;
+  }
+  if (!raw.attribute) return undefined;
+
+  return {
+    attribute: raw.attribute,
+    operator: raw.operator,
+    value: raw.value
+  };
+};
+
+// Where extracted text came from. With clauses, the text is a chunk from chunkDocument
+// whose passages are tagged [label], and every draft is traced back to one of them.
+export interface ExtractionSource {
+  doc: string;
+  clauses?: DocumentClause[];
+}
+
+// Fresh ids and the source passage for each draft. A clause label the model did not
+// take from the text falls back to the whole chunk.
+const attachSource = (rules: Rule[], text: string, source?: ExtractionSource): Rule[] => {
+  const stamp = Date.now().toString(36);
+  const clauses = source?.clauses || [];
+  const whole = clauses.length > 0 ? clauses.map(c => c.text).join('\n\n') : text.trim();
+
+  return rules.map((rule, i) => {
+    const label = String(rule.source_clause ?? '').replace(/^\[|\]$/g, '').trim();
+    return {
+      ...rule,
+      id: `draft-${stamp}-${i + 1}`,
+      source_doc: source?.doc ?? rule.source_doc,
+      source_clause: clauses.find(c => c.label === label)?.text ?? whole
+    };
+  });
+};
+
+export const extractRulesFromText = async (text: string, attributes: ProductAttribute[], source?: ExtractionSource): Promise<Rule[]> => {
   if (!process.env.API_KEY) {
     console.warn("No API Key found. Returning mock extraction.");
     await new Promise(resolve => setTimeout(resolve, 1500));
-    return MOCK_EXTRACTED_RULES;
+    return attachSource(MOCK_EXTRACTED_RULES, text, source);
   }
 
-  const validAttributesString = attributes.map(a => a.id).join(', ');
+  const describeAttribute = (a: ProductAttribute) => {
+    if (a.type === 'multi' || a.type === 'quantity') return `${a.id} (${a.type})`;
+    // Free-entry numbers carry their range so extracted thresholds can be sanity-checked
+    if (a.type === 'number' && !a.options?.length && (a.min !== undefined || a.max !== undefined || a.unit)) {
+      return `${a.id} (number ${a.min ?? ''}..${a.max ?? ''}${a.unit ? ` ${a.unit}` : ''})`;
+    }
+    return a.id;
+  };
+  const validAttributesString = attributes.map(describeAttribute).join(', ');
 
   try {
     const response = await ai.models.generateContent({
@@ -51,15 +153,29 @@ export const extractRulesFromText = async (text: string, attributes: ProductAttr
       {
         id: string (generate a unique id),
         natural_text: string (summary of the rule),
-        type: 'implication' | 'exclusion',
-        condition: { attribute: string, operator: string, value: any },
-        consequence: { attribute: string, operator: string, value: any } (only for implication),
+        type: 'implication' | 'exclusion' | 'assignment',
+        condition: Expression,
+        consequence: Expression (only for implication),
+        assignment: { attribute: string, value: any } (only for assignment: a value computed from the condition, e.g. "ACM-600 provides 7000 BTU"),
+        strength: 'hard' | 'soft' ('soft' for recommendations worded "should", "recommended", "preferably"; otherwise 'hard'),
+        priority: number (1-100, how strongly a soft rule should be kept when it competes with others),
         confidence: number (0-1),
-        source_doc: string (use 'uploaded_text')
+        source_doc: string (use 'uploaded_text'),
+        source_clause: string (the label in square brackets of the passage the rule comes from, e.g. "3.2", if the text has such labels)
       }
 
+      Expression is either a single test { attribute: string, operator: string, value: any }
+      or a combination { and: Expression[] }, { or: Expression[] }, { not: Expression }.
+      Use "and" when a rule has several preconditions, e.g. "marine AND motor_hp >= 12".
+
       Valid Attributes: ${validAttributesString}.
       Valid Operators: >, >=, <, <=, ==, !=, in.
+      Multi-select attributes, marked (multi), hold a list of picked options and only take
+      contains (one option is picked), containsAny (value is a list), count>= and count<= (value is how many are picked).
+      Quantity attributes, marked (quantity), are whole numbers compared like numbers.
+      For relations between numeric attributes the value of a comparison or assignment may be a formula
+      using other attribute ids, numbers, + - * / and min(...) max(...), e.g.
+      { attribute: "cooling_capacity", operator: ">=", value: "400 * motor_hp" }.
 
       Text to parse:
       "${text}"
@@ -73,25 +189,21 @@ export const extractRulesFromText = async (text: string, attributes: ProductAttr
                 properties: {
                     id: { type: Type.STRING },
                     natural_text: { type: Type.STRING },
-                    type: { type: Type.STRING, enum: ['implication', 'exclusion'] },
-                    condition: {
+                    type: { type: Type.STRING, enum: ['implication', 'exclusion', 'assignment'] },
+                    condition: expressionSchema(),
+                    consequence: expressionSchema(),
+                    assignment: {
                         type: Type.OBJECT,
                         properties: {
                             attribute: { type: Type.STRING },
-                            operator: { type: Type.STRING },
-                            value: { type: Type.STRING } // Using string for flexibility in schema, cast later if needed
-                        }
-                    },
-                    consequence: {
-                        type: Type.OBJECT,
-                        properties: {
-                            attribute: { type: Type.STRING },
-                            operator: { type: Type.STRING },
                             value: { type: Type.STRING }
                         }
                     },
+                    strength: { type: Type.STRING, enum: ['hard', 'soft'] },
+                    priority: { type: Type.NUMBER },
                     confidence: { type: Type.NUMBER },
-                    source_doc: { type: Type.STRING }
+                    source_doc: { type: Type.STRING },
+                    source_clause: { type: Type.STRING }
                 }
             }
         }
@@ -103,19 +215,35 @@ export const extractRulesFromText = async (text: string, attributes: ProductAttr
     
     const parsed = JSON.parse(raw);
     
-    // Post-processing to ensure clean structure match
-    return parsed.map((r: any) => ({
-      ...r,
-      approved: false,
-      created_at: new Date().toISOString(),
-      // Simple heuristic to cast number strings back to numbers for the engine
-      condition: { ...r.condition, value: isNaN(Number(r.condition.value)) ? r.condition.value : Number(r.condition.value) },
-      consequence: r.consequence ? { ...r.consequence, value: isNaN(Number(r.consequence.value)) ? r.consequence.value : Number(r.consequence.value) } : undefined
-    }));
+    // Post-processing to ensure clean structure match. Values are coerced to the
+    // attribute types; anything still wrong is flagged by validateRule on the draft.
+    const rules: Rule[] = [];
+    for (const r of parsed) {
+      const condition = normalizeExpression(r.condition);
+      const consequence = normalizeExpression(r.consequence);
+      // Without a usable condition (or an implication's consequence) there is no rule to review
+      if (!condition || (r.type === 'implication' && !consequence)) {
+        console.warn("Dropping extracted rule without a usable condition", r);
+        continue;
+      }
+      rules.push(coerceRule({
+        ...r,
+        strength: r.strength === 'soft' ? 'soft' : 'hard',
+        priority: typeof r.priority === 'number' ? r.priority : 50,
+        confidence: typeof r.confidence === 'number' ? r.confidence : 0,
+        approved: false,
+        created_at: new Date().toISOString(),
+        condition,
+        consequence,
+        assignment: r.assignment?.attribute ? { attribute: r.assignment.attribute, value: r.assignment.value } : undefined
+      }, attributes));
+    }
+    return attachSource(rules, text, source);
 
   } catch (error) {
+    // The caller reports the failure; sample rules here would carry this document's provenance
     console.error("LLM Extraction failed", error);
-    return MOCK_EXTRACTED_RULES;
+    throw error;
   }
 };
 
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { GoldenTest, ValidationResult, ValidationViolation } from '../types';
+import { checkGoldenTest, runGoldenTestsDeterministic } from './goldenTests';
+import { ATTRIBUTES, INITIAL_RULES } from './mockData';
+
+const violation = (rule_id: string, severity: ValidationViolation['severity'] = 'error'): ValidationViolation =>
+  ({ rule_id, message: rule_id, severity, source: 'test' });
+
+const valid: ValidationResult = { isValid: true, violations: [] };
+const invalid = (...ruleIds: string[]): ValidationResult => ({ isValid: false, violations: ruleIds.map(id => violation(id)) });
+
+const test = (patch: Partial<GoldenTest>): GoldenTest => ({ id: 't1', name: 'Test', config: {}, expect: 'valid', ...patch });
+
+describe('checkGoldenTest', () => {
+  it('passes a valid expectation on a valid result, warnings included', () => {
+    expect(checkGoldenTest(test({}), valid, 'deterministic').passed).toBe(true);
+    expect(checkGoldenTest(test({}), { isValid: true, violations: [violation('soft-1', 'warning')] }, 'z3').passed).toBe(true);
+  });
+
+  it('fails a valid expectation on an invalid result and names the rules', () => {
+    const result = checkGoldenTest(test({}), invalid('rule-001'), 'z3');
+    expect(result).toMatchObject({ test_id: 't1', engine: 'z3', passed: false });
+    expect(result.message).toContain('rule-001');
+  });
+
+  it('fails an invalid expectation on a valid result', () => {
+    expect(checkGoldenTest(test({ expect: 'invalid' }), valid, 'deterministic').passed).toBe(false);
+  });
+
+  it('requires every expected rule among the errors', () => {
+    const expectation = test({ expect: 'invalid', expectedRuleIds: ['rule-001', 'rule-002'] });
+    expect(checkGoldenTest(expectation, invalid('rule-002', 'rule-001', 'rule-003'), 'z3').passed).toBe(true);
+    expect(checkGoldenTest(expectation, invalid('rule-001'), 'z3').message).toBe('Expected rule-002 to fail, got rule-001');
+  });
+
+  it('accepts any error when no rules are expected', () => {
+    expect(checkGoldenTest(test({ expect: 'invalid', expectedRuleIds: [] }), invalid('schema-validation'), 'deterministic').passed).toBe(true);
+  });
+});
+
+describe('runGoldenTestsDeterministic', () => {
+  it('reruns every test against the rules', () => {
+    const tests = [
+      test({ id: 'ok', config: { motor_type: 'motor-A', cooling_unit: 'ACM-400', environment: 'indoor' } }),
+      test({ id: 'hot', expect: 'invalid', expectedRuleIds: ['rule-001'], config: { motor_type: 'motor-C', cooling_unit: 'ACM-400', environment: 'indoor' } })
+    ];
+    expect(runGoldenTestsDeterministic(tests, INITIAL_RULES, ATTRIBUTES).map(r => [r.test_id, r.passed])).toEqual([['ok', true], ['hot', true]]);
+  });
+});
@@ -0,0 +1,37 @@
+import { GoldenTest, GoldenTestResult, ValidationResult, Rule, ProductAttribute } from '../types';
+import { validateDeterministic, ValidationEngine } from './engine';
+
+// Compares one engine's verdict with the test's expectation. Warnings never fail a test.
+export const checkGoldenTest = (test: GoldenTest, result: ValidationResult, engine: GoldenTestResult['engine']): GoldenTestResult => {
+  const errorIds = result.violations.filter(v => v.severity === 'error').map(v => v.rule_id);
+  const fail = (message: string): GoldenTestResult => ({ test_id: test.id, engine, passed: false, message });
+  const pass = (message: string): GoldenTestResult => ({ test_id: test.id, engine, passed: true, message });
+
+  if (test.expect === 'valid') {
+    return result.isValid ? pass('Valid') : fail(`Expected valid, but failed ${errorIds.join(', ')}`);
+  }
+
+  if (result.isValid) return fail('Expected invalid, but the configuration passed');
+  const missing = (test.expectedRuleIds || []).filter(id => !errorIds.includes(id));
+  return missing.length === 0
+    ? pass(`Invalid (${errorIds.join(', ')})`)
+    : fail(`Expected ${missing.join(', ')} to fail, got ${errorIds.join(', ')}`);
+};
+
+export const runGoldenTestsDeterministic = (tests: GoldenTest[], rules: Rule[], attributes: ProductAttribute[]): GoldenTestResult[] =>
+  tests.map(test => checkGoldenTest(test, validateDeterministic(test.config, rules, attributes), 'deterministic'));
+
+// Runs one test after the other, since the Z3 context serves a single check at a time.
+// The engine is the in-process Z3SatEngine in Node and the worker-backed one in the browser.
+export const runGoldenTestsZ3 = async (tests: GoldenTest[], rules: Rule[], attributes: ProductAttribute[], engine: ValidationEngine): Promise<GoldenTestResult[]> => {
+  const results: GoldenTestResult[] = [];
+  for (const test of tests) {
+    try {
+      results.push(checkGoldenTest(test, await engine.validate(test.config, rules, attributes), 'z3'));
+    } catch (e) {
+      console.error(`Z3 golden test ${test.id} failed to run`, e);
+      results.push({ test_id: test.id, engine: 'z3', passed: false, message: 'Z3 engine error, see console' });
+    }
+  }
+  return results;
+};
@@ -1,4 +1,4 @@
-import { ProductAttribute, Rule } from '../types';
+import { ProductAttribute, Rule, PriceRule, ComponentModel, QuoteRule } from '../types';
 
 export const ATTRIBUTES: ProductAttribute[] = [
   {
@@ -6,10 +6,11 @@ export const ATTRIBUTES: ProductAttribute[] = [
     name: 'Motor Model',
     type: 'string',
     required: true,
+    basePrice: 1200,
     options: [
-      { label: 'Standard Motor (5HP)', value: 'motor-A' },
-      { label: 'Performance Motor (12HP)', value: 'motor-B' },
-      { label: 'Industrial Motor (20HP)', value: 'motor-C' },
+      { label: 'Standard Motor (5HP)', value: 'motor-A', price: 400 },
+      { label: 'Performance Motor (12HP)', value: 'motor-B', price: 950 },
+      { label: 'Industrial Motor (20HP)', value: 'motor-C', price: 1600 },
     ]
   },
   {
@@ -29,9 +30,9 @@ export const ATTRIBUTES: ProductAttribute[] = [
     type: 'string',
     required: true,
     options: [
-      { label: 'ACM-400 (4000 BTU)', value: 'ACM-400' },
-      { label: 'ACM-500 (5000 BTU)', value: 'ACM-500' },
-      { label: 'ACM-600 (7000 BTU)', value: 'ACM-600' },
+      { label: 'ACM-400 (4000 BTU)', value: 'ACM-400', price: 300 },
+      { label: 'ACM-500 (5000 BTU)', value: 'ACM-500', price: 450 },
+      { label: 'ACM-600 (7000 BTU)', value: 'ACM-600', price: 700 },
     ]
   },
   {
@@ -65,8 +66,8 @@ export const ATTRIBUTES: ProductAttribute[] = [
     defaultValue: 'none',
     options: [
       { label: 'None', value: 'none' },
-      { label: '1 Year (+ $50)', value: '1yr' },
-      { label: '3 Years (+ $120)', value: '3yr' },
+      { label: '1 Year', value: '1yr', price: 50 },
+      { label: '3 Years', value: '3yr', price: 120 },
     ]
   }
 ];
@@ -83,5 +84,170 @@ export const INITIAL_RULES: Rule[] = [
     approved: true,
     created_at: new Date().toISOString(),
     source_doc: 'manual_v1.pdf'
+  },
+  // Derived attributes: the motor model fixes its horsepower, the cooling unit its capacity
+  {
+    id: 'derive-001',
+    natural_text: 'The Standard Motor is rated at 5 HP.',
+    type: 'assignment',
+    condition: { attribute: 'motor_type', operator: '==', value: 'motor-A' },
+    assignment: { attribute: 'motor_hp', value: 5 },
+    priority: 1,
+    confidence: 1.0,
+    approved: true,
+    created_at: new Date().toISOString(),
+    source_doc: 'catalog_specs.pdf'
+  },
+  {
+    id: 'derive-002',
+    natural_text: 'The Performance Motor is rated at 12 HP.',
+    type: 'assignment',
+    condition: { attribute: 'motor_type', operator: '==', value: 'motor-B' },
+    assignment: { attribute: 'motor_hp', value: 12 },
+    priority: 1,
+    confidence: 1.0,
+    approved: true,
+    created_at: new Date().toISOString(),
+    source_doc: 'catalog_specs.pdf'
+  },
+  {
+    id: 'derive-003',
+    natural_text: 'The Industrial Motor is rated at 20 HP.',
+    type: 'assignment',
+    condition: { attribute: 'motor_type', operator: '==', value: 'motor-C' },
+    assignment: { attribute: 'motor_hp', value: 20 },
+    priority: 1,
+    confidence: 1.0,
+    approved: true,
+    created_at: new Date().toISOString(),
+    source_doc: 'catalog_specs.pdf'
+  },
+  {
+    id: 'derive-004',
+    natural_text: 'The ACM-400 provides 4000 BTU of cooling.',
+    type: 'assignment',
+    condition: { attribute: 'cooling_unit', operator: '==', value: 'ACM-400' },
+    assignment: { attribute: 'cooling_capacity', value: 4000 },
+    priority: 1,
+    confidence: 1.0,
+    approved: true,
+    created_at: new Date().toISOString(),
+    source_doc: 'catalog_specs.pdf'
+  },
+  {
+    id: 'derive-005',
+    natural_text: 'The ACM-500 provides 5000 BTU of cooling.',
+    type: 'assignment',
+    condition: { attribute: 'cooling_unit', operator: '==', value: 'ACM-500' },
+    assignment: { attribute: 'cooling_capacity', value: 5000 },
+    priority: 1,
+    confidence: 1.0,
+    approved: true,
+    created_at: new Date().toISOString(),
+    source_doc: 'catalog_specs.pdf'
+  },
+  {
+    id: 'derive-006',
+    natural_text: 'The ACM-600 provides 7000 BTU of cooling.',
+    type: 'assignment',
+    condition: { attribute: 'cooling_unit', operator: '==', value: 'ACM-600' },
+    assignment: { attribute: 'cooling_capacity', value: 7000 },
+    priority: 1,
+    confidence: 1.0,
+    approved: true,
+    created_at: new Date().toISOString(),
+    source_doc: 'catalog_specs.pdf'
+  },
+  // Recommendation: warns, but does not block the configuration
+  {
+    id: 'rule-002',
+    natural_text: 'Marine installations should carry the 3 year warranty.',
+    type: 'implication',
+    condition: { attribute: 'environment', operator: '==', value: 'marine' },
+    consequence: { attribute: 'warranty', operator: '==', value: '3yr' },
+    strength: 'soft',
+    priority: 40,
+    confidence: 1.0,
+    approved: true,
+    created_at: new Date().toISOString(),
+    source_doc: 'sales_guidelines.pdf'
+  }
+];
+
+export const INITIAL_PRICE_RULES: PriceRule[] = [
+  {
+    id: 'price-001',
+    name: 'Marine corrosion protection',
+    type: 'surcharge',
+    condition: { attribute: 'environment', operator: '==', value: 'marine' },
+    percent: 15,
+    source_doc: 'price_list_2024.pdf'
+  },
+  {
+    id: 'price-002',
+    name: 'Industrial service bundle',
+    type: 'discount',
+    condition: {
+      and: [
+        { attribute: 'motor_type', operator: '==', value: 'motor-C' },
+        { attribute: 'warranty', operator: '==', value: '3yr' }
+      ]
+    },
+    amount: 100,
+    source_doc: 'price_list_2024.pdf'
   }
-];
\ No newline at end of file
+];
+
+// Accessories that are quoted as their own lines next to the motor system
+export const COMPONENTS: ComponentModel[] = [
+  {
+    id: 'corrosion_kit',
+    name: 'Corrosion Protection Kit',
+    attributes: [
+      {
+        id: 'grade',
+        name: 'Coating Grade',
+        type: 'string',
+        required: true,
+        defaultValue: 'standard',
+        basePrice: 180,
+        options: [
+          { label: 'Standard', value: 'standard' },
+          { label: 'Offshore', value: 'offshore', price: 120 }
+        ]
+      }
+    ],
+    rules: []
+  },
+  {
+    id: 'spare_fan',
+    name: 'Spare Fan Pack',
+    attributes: [
+      {
+        id: 'pack',
+        name: 'Pack Size',
+        type: 'string',
+        required: true,
+        defaultValue: 'two',
+        basePrice: 70,
+        options: [
+          { label: '2 fans', value: 'two' },
+          { label: '4 fans', value: 'four', price: 60 }
+        ]
+      }
+    ],
+    rules: []
+  }
+];
+
+export const INITIAL_QUOTE_RULES: QuoteRule[] = [
+  {
+    id: 'quote-001',
+    natural_text: 'Every marine unit requires one corrosion protection kit.',
+    type: 'requires',
+    when: { model: 'main', condition: { attribute: 'environment', operator: '==', value: 'marine' } },
+    then: { model: 'corrosion_kit' },
+    approved: true,
+    source_doc: 'marine_installation_guide.pdf'
+  }
+];
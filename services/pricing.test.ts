@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { ProductAttribute, PriceRule } from '../types';
+import { calculatePrice } from './pricing';
+
+const attributes: ProductAttribute[] = [
+  {
+    id: 'model',
+    name: 'Model',
+    type: 'string',
+    required: true,
+    basePrice: 100,
+    options: [{ label: 'Basic', value: 'basic' }, { label: 'Pro', value: 'pro', price: 50 }]
+  },
+  { id: 'units', name: 'Units', type: 'quantity', min: 1 }
+];
+
+const volume: PriceRule = {
+  id: 'volume',
+  name: 'Volume discount',
+  type: 'tier',
+  attribute: 'units',
+  tiers: [{ min: 0, amount: 0 }, { min: 10, percent: 10 }, { min: 50, percent: 20 }]
+};
+
+describe('calculatePrice', () => {
+  it('adds the base price and the picked option', () => {
+    const price = calculatePrice({ model: 'pro' }, attributes);
+    expect(price.subtotal).toBe(150);
+    expect(price.total).toBe(150);
+  });
+
+  it('applies the highest tier the quantity reaches', () => {
+    expect(calculatePrice({ model: 'pro', units: 12 }, attributes, [volume]).total).toBe(135);
+    expect(calculatePrice({ model: 'pro', units: 50 }, attributes, [volume]).total).toBe(120);
+  });
+
+  it('applies no tier while the quantity is unset', () => {
+    const rule: PriceRule = { ...volume, tiers: [{ min: 0, amount: 30 }] };
+    expect(calculatePrice({ model: 'pro' }, attributes, [rule]).lines.some(l => l.price_rule_id === 'volume')).toBe(false);
+    expect(calculatePrice({ model: 'pro', units: '' }, attributes, [rule]).total).toBe(150);
+    expect(calculatePrice({ model: 'pro', units: 0 }, attributes, [rule]).total).toBe(120);
+  });
+
+  it('only applies a conditional surcharge when its condition holds', () => {
+    const rule: PriceRule = { id: 'pro-fee', name: 'Pro fee', type: 'surcharge', amount: 25, condition: { attribute: 'model', operator: '==', value: 'pro' } };
+    expect(calculatePrice({ model: 'basic' }, attributes, [rule]).total).toBe(100);
+    expect(calculatePrice({ model: 'pro' }, attributes, [rule]).total).toBe(175);
+  });
+});
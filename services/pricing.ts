@@ -0,0 +1,70 @@
+import { Configuration, ProductAttribute, PriceRule, PriceLine, PriceBreakdown } from '../types';
+import { evaluateExpression } from './engine';
+
+const isSet = (val: any) => val !== undefined && val !== null && val !== '' && !(Array.isArray(val) && val.length === 0);
+
+const adjustmentAmount = (amount: number | undefined, percent: number | undefined, subtotal: number): number =>
+  (amount || 0) + (percent ? subtotal * percent / 100 : 0);
+
+export const calculatePrice = (
+  config: Configuration,
+  attributes: ProductAttribute[],
+  priceRules: PriceRule[] = []
+): PriceBreakdown => {
+  const lines: PriceLine[] = [];
+
+  // 1. Base and option prices
+  for (const attr of attributes) {
+    const val = config[attr.id];
+    if (!isSet(val)) continue;
+
+    if (attr.basePrice) {
+      lines.push({ label: attr.name, amount: attr.basePrice, kind: 'base', attribute: attr.id });
+    }
+
+    // A multi-select charges every option picked
+    const picked = Array.isArray(val) ? val : [val];
+    for (const option of attr.options?.filter(opt => picked.some(v => opt.value == v)) || []) {
+      if (option.price) {
+        lines.push({ label: `${attr.name}: ${option.label}`, amount: option.price, kind: 'option', attribute: attr.id });
+      }
+    }
+  }
+
+  const subtotal = lines.reduce((sum, line) => sum + line.amount, 0);
+
+  // 2. Conditional adjustments (computed against the subtotal, not each other)
+  for (const rule of priceRules) {
+    if (rule.condition && !evaluateExpression(rule.condition, config)) continue;
+
+    let amount = 0;
+    if (rule.type === 'tier') {
+      // An unset quantity is not zero: no tier applies until there is one
+      const val = config[rule.attribute || ''];
+      const qty = Number(val);
+      if (!rule.tiers || !isSet(val) || isNaN(qty)) continue;
+
+      const tier = rule.tiers
+        .filter(t => qty >= t.min)
+        .sort((a, b) => b.min - a.min)[0];
+      if (!tier) continue;
+
+      // Volume tiers are discounts
+      amount = -adjustmentAmount(tier.amount, tier.percent, subtotal);
+    } else {
+      const magnitude = adjustmentAmount(rule.amount, rule.percent, subtotal);
+      amount = rule.type === 'discount' ? -magnitude : magnitude;
+    }
+
+    if (amount !== 0) {
+      lines.push({ label: rule.name, amount, kind: 'adjustment', price_rule_id: rule.id });
+    }
+  }
+
+  const total = lines.reduce((sum, line) => sum + line.amount, 0);
+
+  return { lines, subtotal, total };
+};
+
+export const formatPrice = (amount: number): string =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { migrateProject, validateProjectData, CURRENT_FORMAT_VERSION } from './projectFormat';
+import { createSampleProject } from './storage';
+import { ATTRIBUTES, INITIAL_RULES } from './mockData';
+
+// An export from before versioning: no formatVersion, no price rules, numbers as strings
+const versionOne = () => ({
+  attributes: ATTRIBUTES,
+  rules: [{
+    id: 'rule-hp',
+    natural_text: 'Big motors need a big cooler.',
+    type: 'implication',
+    condition: { attribute: 'motor_hp', operator: '>', value: '10' },
+    consequence: { attribute: 'cooling_capacity', operator: '>=', value: '5000' },
+    priority: 50,
+    confidence: 1,
+    approved: true,
+    created_at: '2024-01-01T00:00:00.000Z'
+  }],
+  config: {}
+});
+
+describe('migrateProject', () => {
+  it('upgrades a version 1 export step by step to the current format', () => {
+    const { data, fromVersion } = migrateProject(versionOne());
+    expect(fromVersion).toBe(1);
+    expect(data.formatVersion).toBe(CURRENT_FORMAT_VERSION);
+    expect(data).toMatchObject({ priceRules: [], drafts: [], auditLog: [], goldenTests: [], components: [], quoteRules: [], quote: [] });
+    expect(data.rules[0].condition.value).toBe(10);
+    expect(data.rules[0].consequence.value).toBe(5000);
+    expect(validateProjectData(data)).toEqual([]);
+  });
+
+  it('only runs the migrations after the stored version', () => {
+    const { data } = migrateProject({ ...versionOne(), formatVersion: 4, goldenTests: [{ id: 't', name: 'T', config: {}, expect: 'valid' }] });
+    expect(data.goldenTests).toHaveLength(1);
+    expect(data.priceRules).toBeUndefined();
+    expect(data.quote).toEqual([]);
+  });
+
+  it('leaves data from a newer version alone', () => {
+    const raw = { ...createSampleProject(), formatVersion: CURRENT_FORMAT_VERSION + 1 };
+    expect(migrateProject(raw).data).toBe(raw);
+    expect(validateProjectData(raw)[0].path).toBe('formatVersion');
+  });
+});
+
+describe('validateProjectData', () => {
+  it('accepts the sample project', () => {
+    expect(validateProjectData(createSampleProject())).toEqual([]);
+  });
+
+  it('rejects anything but a project object', () => {
+    expect(validateProjectData(null)).toHaveLength(1);
+    expect(validateProjectData([])).toHaveLength(1);
+  });
+
+  it('reports rules on unknown attributes with their path', () => {
+    const project = createSampleProject();
+    project.rules = [...INITIAL_RULES, { ...INITIAL_RULES[0], id: 'orphan', condition: { attribute: 'colour', operator: '==', value: 'red' } }];
+    const errors = validateProjectData(project);
+    expect(errors.map(e => e.path)).toEqual([`rules[${INITIAL_RULES.length}]`]);
+  });
+
+  it('reports duplicate rule ids', () => {
+    const project = createSampleProject();
+    project.rules = [INITIAL_RULES[0], INITIAL_RULES[0]];
+    expect(validateProjectData(project)).toContainEqual({ path: 'rules[1].id', message: `Duplicate id "${INITIAL_RULES[0].id}".` });
+  });
+
+  it('accepts price tiers on numbers and quantities only', () => {
+    const project = createSampleProject();
+    project.attributes = [...project.attributes, { id: 'units', name: 'Units', type: 'quantity', min: 1 }];
+    const tier = { id: 'volume', name: 'Volume', type: 'tier' as const, tiers: [{ min: 10, percent: 5 }] };
+
+    project.priceRules = [{ ...tier, attribute: 'units' }];
+    expect(validateProjectData(project)).toEqual([]);
+
+    project.priceRules = [{ ...tier, attribute: 'environment' }];
+    expect(validateProjectData(project).map(e => e.path)).toEqual(['priceRules[0].attribute']);
+  });
+});
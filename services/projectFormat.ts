@@ -0,0 +1,411 @@
+import { ProjectData, ProjectFieldError, ProductAttribute, Rule, PriceRule, GoldenTest, ImportConflictPolicy, ComponentModel, QuoteRule } from '../types';
+import { coerceRule, validateRule, validateExpression } from './ruleSchema';
+import { MAIN_MODEL_ID, getQuoteModels } from './quote';
+
+// Bump when the shape of ProjectData changes, and add a migration from the previous version.
+export const CURRENT_FORMAT_VERSION = 5;
+
+const isObject = (v: any): boolean => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+// Each migration upgrades data of version N to N + 1
+const MIGRATIONS: Record<number, (data: any) => any> = {
+  // 1 → 2: exports made before versioning have no price rules or drafts, and may carry
+  // numeric rule values as strings from before values were coerced to the attribute type
+  1: (data) => ({
+    ...data,
+    priceRules: data.priceRules ?? [],
+    drafts: data.drafts ?? [],
+    rules: Array.isArray(data.rules) && Array.isArray(data.attributes)
+      ? data.rules.map((r: any) => isObject(r) ? coerceRule(r, data.attributes.filter(isObject)) : r)
+      : data.rules
+  }),
+  // 2 → 3: rule changes are recorded in an audit log
+  2: (data) => ({ ...data, auditLog: data.auditLog ?? [] }),
+  // 3 → 4: golden test configurations
+  3: (data) => ({ ...data, goldenTests: data.goldenTests ?? [] }),
+  // 4 → 5: quotes of several line items, with component models and cross-item rules
+  4: (data) => ({ ...data, components: data.components ?? [], quoteRules: data.quoteRules ?? [], quote: data.quote ?? [] })
+};
+
+// Upgrades raw project JSON to the current format. Data from a newer app version is returned
+// untouched; validateProjectData reports it.
+export const migrateProject = (raw: any): { data: any; fromVersion: number } => {
+  const fromVersion = isObject(raw) && typeof raw.formatVersion === 'number' ? raw.formatVersion : 1;
+  let data = raw;
+  for (let version = fromVersion; version < CURRENT_FORMAT_VERSION && isObject(data); version++) {
+    data = { ...MIGRATIONS[version](data), formatVersion: version + 1 };
+  }
+  return { data, fromVersion };
+};
+
+const ATTRIBUTE_TYPES: ProductAttribute['type'][] = ['number', 'string', 'boolean', 'multi', 'quantity'];
+
+const checkAttribute = (attr: any, path: string): ProjectFieldError[] => {
+  if (!isObject(attr)) return [{ path, message: 'Must be an object.' }];
+  const errors: ProjectFieldError[] = [];
+
+  if (typeof attr.id !== 'string' || attr.id.trim() === '') errors.push({ path: `${path}.id`, message: 'Must be a non-empty string.' });
+  if (typeof attr.name !== 'string') errors.push({ path: `${path}.name`, message: 'Must be a string.' });
+  if (!ATTRIBUTE_TYPES.includes(attr.type)) {
+    errors.push({ path: `${path}.type`, message: `"${attr.type}" is not one of ${ATTRIBUTE_TYPES.join(', ')}.` });
+  }
+  if (attr.required !== undefined && typeof attr.required !== 'boolean') errors.push({ path: `${path}.required`, message: 'Must be true or false.' });
+  if (attr.basePrice !== undefined && typeof attr.basePrice !== 'number') errors.push({ path: `${path}.basePrice`, message: 'Must be a number.' });
+  // Free-entry numbers may have decimal bounds; counts and quantities are whole
+  for (const bound of ['min', 'max']) {
+    if (attr[bound] === undefined) continue;
+    if (attr.type === 'number' ? typeof attr[bound] !== 'number' : !Number.isInteger(attr[bound])) {
+      errors.push({ path: `${path}.${bound}`, message: attr.type === 'number' ? 'Must be a number.' : 'Must be a whole number.' });
+    }
+  }
+  if (typeof attr.min === 'number' && typeof attr.max === 'number' && attr.min > attr.max) {
+    errors.push({ path: `${path}.max`, message: 'Must not be below min.' });
+  }
+  if (attr.step !== undefined && !(typeof attr.step === 'number' && attr.step > 0)) errors.push({ path: `${path}.step`, message: 'Must be a positive number.' });
+  if (attr.unit !== undefined && typeof attr.unit !== 'string') errors.push({ path: `${path}.unit`, message: 'Must be a string.' });
+  if (attr.type === 'multi' && !(Array.isArray(attr.options) && attr.options.length > 0)) {
+    errors.push({ path: `${path}.options`, message: 'A multi-select needs options to pick from.' });
+  }
+
+  if (attr.options !== undefined) {
+    if (!Array.isArray(attr.options)) {
+      errors.push({ path: `${path}.options`, message: 'Must be a list.' });
+    } else {
+      attr.options.forEach((opt: any, i: number) => {
+        const optPath = `${path}.options[${i}]`;
+        if (!isObject(opt)) {
+          errors.push({ path: optPath, message: 'Must be an object with label and value.' });
+          return;
+        }
+        if (typeof opt.label !== 'string') errors.push({ path: `${optPath}.label`, message: 'Must be a string.' });
+        if (opt.value === undefined || opt.value === null) errors.push({ path: `${optPath}.value`, message: 'Is missing.' });
+        if (opt.price !== undefined && typeof opt.price !== 'number') errors.push({ path: `${optPath}.price`, message: 'Must be a number.' });
+      });
+    }
+  }
+  return errors;
+};
+
+// Fields every rule needs, drafts included. Whether the logic fits the model is checked separately.
+const checkRuleShape = (rule: any, path: string): ProjectFieldError[] => {
+  if (!isObject(rule)) return [{ path, message: 'Must be an object.' }];
+  const errors: ProjectFieldError[] = [];
+
+  if (typeof rule.id !== 'string' || rule.id.trim() === '') errors.push({ path: `${path}.id`, message: 'Must be a non-empty string.' });
+  if (typeof rule.natural_text !== 'string') errors.push({ path: `${path}.natural_text`, message: 'Must be a string.' });
+  if (typeof rule.priority !== 'number') errors.push({ path: `${path}.priority`, message: 'Must be a number.' });
+  if (typeof rule.confidence !== 'number') errors.push({ path: `${path}.confidence`, message: 'Must be a number.' });
+  if (typeof rule.approved !== 'boolean') errors.push({ path: `${path}.approved`, message: 'Must be true or false.' });
+  if (rule.strength !== undefined && !['hard', 'soft'].includes(rule.strength)) {
+    errors.push({ path: `${path}.strength`, message: `"${rule.strength}" is not one of hard, soft.` });
+  }
+  return errors;
+};
+
+const checkPriceRule = (rule: any, path: string, attributes: ProductAttribute[]): ProjectFieldError[] => {
+  if (!isObject(rule)) return [{ path, message: 'Must be an object.' }];
+  const errors: ProjectFieldError[] = [];
+
+  if (typeof rule.id !== 'string' || rule.id.trim() === '') errors.push({ path: `${path}.id`, message: 'Must be a non-empty string.' });
+  if (typeof rule.name !== 'string') errors.push({ path: `${path}.name`, message: 'Must be a string.' });
+  if (!['surcharge', 'discount', 'tier'].includes(rule.type)) {
+    errors.push({ path: `${path}.type`, message: `"${rule.type}" is not one of surcharge, discount, tier.` });
+  }
+  for (const field of ['amount', 'percent']) {
+    if (rule[field] !== undefined && typeof rule[field] !== 'number') errors.push({ path: `${path}.${field}`, message: 'Must be a number.' });
+  }
+  if (rule.condition !== undefined) {
+    validateExpression(rule.condition, attributes, 'Condition')
+      .forEach(message => errors.push({ path: `${path}.condition`, message }));
+  }
+  if (rule.type === 'tier') {
+    const attr = attributes.find(a => a.id === rule.attribute);
+    if (!attr || (attr.type !== 'number' && attr.type !== 'quantity')) {
+      errors.push({ path: `${path}.attribute`, message: `Tiers need a number or quantity attribute, "${rule.attribute ?? ''}" is not one.` });
+    }
+    if (!Array.isArray(rule.tiers) || rule.tiers.some((t: any) => !isObject(t) || typeof t.min !== 'number')) {
+      errors.push({ path: `${path}.tiers`, message: 'Must be a list of tiers, each with a numeric min.' });
+    }
+  }
+  return errors;
+};
+
+const checkUniqueIds = (items: any[], path: string): ProjectFieldError[] => {
+  const seen = new Set<string>();
+  const errors: ProjectFieldError[] = [];
+  items.forEach((item, i) => {
+    if (!isObject(item) || typeof item.id !== 'string') return;
+    if (seen.has(item.id)) errors.push({ path: `${path}[${i}].id`, message: `Duplicate id "${item.id}".` });
+    seen.add(item.id);
+  });
+  return errors;
+};
+
+// A component model is checked like the project's own attributes, rules and price rules
+const checkComponent = (component: any, path: string): ProjectFieldError[] => {
+  if (!isObject(component)) return [{ path, message: 'Must be an object.' }];
+  const errors: ProjectFieldError[] = [];
+
+  if (typeof component.id !== 'string' || component.id.trim() === '') {
+    errors.push({ path: `${path}.id`, message: 'Must be a non-empty string.' });
+  } else if (component.id === MAIN_MODEL_ID) {
+    errors.push({ path: `${path}.id`, message: `"${MAIN_MODEL_ID}" is reserved for the project's own product.` });
+  }
+  if (typeof component.name !== 'string') errors.push({ path: `${path}.name`, message: 'Must be a string.' });
+  if (!Array.isArray(component.attributes)) {
+    errors.push({ path: `${path}.attributes`, message: 'Must be a list.' });
+    return errors;
+  }
+  component.attributes.forEach((attr: any, i: number) => errors.push(...checkAttribute(attr, `${path}.attributes[${i}]`)));
+  errors.push(...checkUniqueIds(component.attributes, `${path}.attributes`));
+  const modelOk = errors.length === 0;
+
+  if (!Array.isArray(component.rules)) {
+    errors.push({ path: `${path}.rules`, message: 'Must be a list.' });
+  } else {
+    component.rules.forEach((rule: any, i: number) => {
+      const rulePath = `${path}.rules[${i}]`;
+      const shape = checkRuleShape(rule, rulePath);
+      errors.push(...shape);
+      if (shape.length === 0 && modelOk) {
+        validateRule(rule, component.attributes).forEach(message => errors.push({ path: rulePath, message: `${rule.id}: ${message}` }));
+      }
+    });
+    errors.push(...checkUniqueIds(component.rules, `${path}.rules`));
+  }
+  if (component.priceRules !== undefined) {
+    if (!Array.isArray(component.priceRules)) {
+      errors.push({ path: `${path}.priceRules`, message: 'Must be a list.' });
+    } else if (modelOk) {
+      component.priceRules.forEach((rule: any, i: number) => errors.push(...checkPriceRule(rule, `${path}.priceRules[${i}]`, component.attributes)));
+    }
+  }
+  return errors;
+};
+
+const checkSelector = (selector: any, path: string, models: ComponentModel[]): ProjectFieldError[] => {
+  if (!isObject(selector)) return [{ path, message: 'Must be an object with a model.' }];
+  const model = models.find(m => m.id === selector.model);
+  if (!model) return [{ path: `${path}.model`, message: `Unknown model "${selector.model ?? ''}".` }];
+  if (selector.condition === undefined) return [];
+  return validateExpression(selector.condition, model.attributes, 'Condition').map(message => ({ path: `${path}.condition`, message }));
+};
+
+const checkQuoteRule = (rule: any, path: string, models: ComponentModel[]): ProjectFieldError[] => {
+  if (!isObject(rule)) return [{ path, message: 'Must be an object.' }];
+  const errors: ProjectFieldError[] = [];
+
+  if (typeof rule.id !== 'string' || rule.id.trim() === '') errors.push({ path: `${path}.id`, message: 'Must be a non-empty string.' });
+  if (typeof rule.natural_text !== 'string') errors.push({ path: `${path}.natural_text`, message: 'Must be a string.' });
+  if (!['requires', 'excludes'].includes(rule.type)) {
+    errors.push({ path: `${path}.type`, message: `"${rule.type}" is not one of requires, excludes.` });
+  }
+  if (rule.ratio !== undefined && !(typeof rule.ratio === 'number' && rule.ratio > 0)) {
+    errors.push({ path: `${path}.ratio`, message: 'Must be a positive number.' });
+  }
+  if (typeof rule.approved !== 'boolean') errors.push({ path: `${path}.approved`, message: 'Must be true or false.' });
+  if (rule.strength !== undefined && !['hard', 'soft'].includes(rule.strength)) {
+    errors.push({ path: `${path}.strength`, message: `"${rule.strength}" is not one of hard, soft.` });
+  }
+  errors.push(...checkSelector(rule.when, `${path}.when`, models), ...checkSelector(rule.then, `${path}.then`, models));
+  return errors;
+};
+
+const checkLineItem = (line: any, path: string, models: ComponentModel[]): ProjectFieldError[] => {
+  if (!isObject(line)) return [{ path, message: 'Must be an object.' }];
+  const errors: ProjectFieldError[] = [];
+
+  if (typeof line.id !== 'string' || line.id.trim() === '') errors.push({ path: `${path}.id`, message: 'Must be a non-empty string.' });
+  if (!(Number.isInteger(line.quantity) && line.quantity > 0)) errors.push({ path: `${path}.quantity`, message: 'Must be a whole number above 0.' });
+  const model = models.find(m => m.id === line.model);
+  if (!model) errors.push({ path: `${path}.model`, message: `Unknown model "${line.model ?? ''}".` });
+  if (!isObject(line.config)) {
+    errors.push({ path: `${path}.config`, message: 'Must be an object of attribute values.' });
+  } else if (model) {
+    Object.keys(line.config)
+      .filter(key => !model.attributes.some(a => a.id === key))
+      .forEach(key => errors.push({ path: `${path}.config.${key}`, message: 'Unknown attribute.' }));
+  }
+  return errors;
+};
+
+// Strict check of (migrated) project data. Returns one error per offending field; empty means the
+// data can be loaded as a ProjectData.
+export const validateProjectData = (data: any): ProjectFieldError[] => {
+  if (!isObject(data)) return [{ path: '', message: 'The file does not contain a project object.' }];
+  if (typeof data.formatVersion === 'number' && data.formatVersion > CURRENT_FORMAT_VERSION) {
+    return [{ path: 'formatVersion', message: `Format version ${data.formatVersion} is newer than this app supports (${CURRENT_FORMAT_VERSION}).` }];
+  }
+
+  const errors: ProjectFieldError[] = [];
+
+  if (!Array.isArray(data.attributes)) {
+    errors.push({ path: 'attributes', message: 'Must be a list.' });
+  } else {
+    data.attributes.forEach((attr: any, i: number) => errors.push(...checkAttribute(attr, `attributes[${i}]`)));
+    errors.push(...checkUniqueIds(data.attributes, 'attributes'));
+  }
+  // Rules can only be checked against a model that is itself sound
+  const modelOk = errors.length === 0;
+  const attributes: ProductAttribute[] = modelOk ? data.attributes : [];
+
+  if (!Array.isArray(data.rules)) {
+    errors.push({ path: 'rules', message: 'Must be a list.' });
+  } else {
+    data.rules.forEach((rule: any, i: number) => {
+      const path = `rules[${i}]`;
+      const shape = checkRuleShape(rule, path);
+      errors.push(...shape);
+      if (shape.length === 0 && modelOk) {
+        validateRule(rule, attributes).forEach(message => errors.push({ path, message: `${rule.id}: ${message}` }));
+      }
+    });
+    errors.push(...checkUniqueIds(data.rules, 'rules'));
+  }
+
+  if (data.drafts !== undefined) {
+    if (!Array.isArray(data.drafts)) errors.push({ path: 'drafts', message: 'Must be a list.' });
+    else data.drafts.forEach((rule: any, i: number) => errors.push(...checkRuleShape(rule, `drafts[${i}]`)));
+  }
+
+  if (data.priceRules !== undefined) {
+    if (!Array.isArray(data.priceRules)) {
+      errors.push({ path: 'priceRules', message: 'Must be a list.' });
+    } else if (modelOk) {
+      data.priceRules.forEach((rule: any, i: number) => errors.push(...checkPriceRule(rule, `priceRules[${i}]`, attributes)));
+      errors.push(...checkUniqueIds(data.priceRules, 'priceRules'));
+    }
+  }
+
+  if (data.auditLog !== undefined) {
+    if (!Array.isArray(data.auditLog)) {
+      errors.push({ path: 'auditLog', message: 'Must be a list.' });
+    } else {
+      data.auditLog.forEach((event: any, i: number) => {
+        const fields = ['id', 'rule_id', 'action', 'actor', 'timestamp'];
+        if (!isObject(event) || fields.some(f => typeof event[f] !== 'string') || !['draft', 'rule'].includes(event.target)) {
+          errors.push({ path: `auditLog[${i}]`, message: `Must be an audit event with ${fields.join(', ')} and target.` });
+        }
+      });
+    }
+  }
+
+  if (data.goldenTests !== undefined) {
+    if (!Array.isArray(data.goldenTests)) {
+      errors.push({ path: 'goldenTests', message: 'Must be a list.' });
+    } else {
+      data.goldenTests.forEach((test: any, i: number) => {
+        const path = `goldenTests[${i}]`;
+        if (!isObject(test)) {
+          errors.push({ path, message: 'Must be an object.' });
+          return;
+        }
+        if (typeof test.id !== 'string' || test.id.trim() === '') errors.push({ path: `${path}.id`, message: 'Must be a non-empty string.' });
+        if (typeof test.name !== 'string') errors.push({ path: `${path}.name`, message: 'Must be a string.' });
+        if (!isObject(test.config)) errors.push({ path: `${path}.config`, message: 'Must be an object of attribute values.' });
+        if (!['valid', 'invalid'].includes(test.expect)) errors.push({ path: `${path}.expect`, message: `"${test.expect}" is not one of valid, invalid.` });
+        if (test.expectedRuleIds !== undefined && (!Array.isArray(test.expectedRuleIds) || test.expectedRuleIds.some((id: any) => typeof id !== 'string'))) {
+          errors.push({ path: `${path}.expectedRuleIds`, message: 'Must be a list of rule ids.' });
+        }
+      });
+      errors.push(...checkUniqueIds(data.goldenTests, 'goldenTests'));
+    }
+  }
+
+  if (data.config !== undefined) {
+    if (!isObject(data.config)) {
+      errors.push({ path: 'config', message: 'Must be an object of attribute values.' });
+    } else if (modelOk) {
+      Object.keys(data.config)
+        .filter(key => !attributes.some(a => a.id === key))
+        .forEach(key => errors.push({ path: `config.${key}`, message: 'Unknown attribute.' }));
+    }
+  }
+
+  const componentErrors: ProjectFieldError[] = [];
+  if (data.components !== undefined) {
+    if (!Array.isArray(data.components)) {
+      componentErrors.push({ path: 'components', message: 'Must be a list.' });
+    } else {
+      data.components.forEach((component: any, i: number) => componentErrors.push(...checkComponent(component, `components[${i}]`)));
+      componentErrors.push(...checkUniqueIds(data.components, 'components'));
+    }
+  }
+  errors.push(...componentErrors);
+  // Quote rules and lines refer to the models, which have to be sound first
+  const models = modelOk && componentErrors.length === 0 ? getQuoteModels(data) : [];
+
+  if (data.quoteRules !== undefined) {
+    if (!Array.isArray(data.quoteRules)) {
+      errors.push({ path: 'quoteRules', message: 'Must be a list.' });
+    } else if (models.length > 0) {
+      data.quoteRules.forEach((rule: any, i: number) => errors.push(...checkQuoteRule(rule, `quoteRules[${i}]`, models)));
+      errors.push(...checkUniqueIds(data.quoteRules, 'quoteRules'));
+    }
+  }
+
+  if (data.quote !== undefined) {
+    if (!Array.isArray(data.quote)) {
+      errors.push({ path: 'quote', message: 'Must be a list of line items.' });
+    } else if (models.length > 0) {
+      data.quote.forEach((line: any, i: number) => errors.push(...checkLineItem(line, `quote[${i}]`, models)));
+      errors.push(...checkUniqueIds(data.quote, 'quote'));
+    }
+  }
+
+  return errors;
+};
+
+// Ids present in both the open project and the file being imported
+export const findImportConflicts = (current: ProjectData, incoming: ProjectData) => {
+  const overlap = <T extends { id: string }>(mine: T[], theirs: T[]) =>
+    theirs.filter(t => mine.some(m => m.id === t.id)).map(t => t.id);
+  return {
+    attributes: overlap(current.attributes, incoming.attributes),
+    rules: overlap(current.rules, incoming.rules),
+    priceRules: overlap(current.priceRules || [], incoming.priceRules || []),
+    components: overlap(current.components || [], incoming.components || []),
+    quoteRules: overlap(current.quoteRules || [], incoming.quoteRules || [])
+  };
+};
+
+const uniqueId = (id: string, taken: Set<string>): string => {
+  let candidate = `${id}-imported`;
+  for (let n = 2; taken.has(candidate); n++) candidate = `${id}-imported-${n}`;
+  return candidate;
+};
+
+// Adds incoming items to existing ones, resolving id clashes according to the policy
+const mergeById = <T extends { id: string }>(mine: T[], theirs: T[], policy: 'keep' | 'overwrite' | 'rename'): T[] => {
+  const result = [...mine];
+  const taken = new Set([...mine, ...theirs].map(item => item.id));
+  for (const item of theirs) {
+    const idx = result.findIndex(m => m.id === item.id);
+    if (idx === -1) {
+      result.push(item);
+    } else if (policy === 'overwrite') {
+      result[idx] = item;
+    } else if (policy === 'rename') {
+      const id = uniqueId(item.id, taken);
+      taken.add(id);
+      result.push({ ...item, id });
+    }
+  }
+  return result;
+};
+
+// Merges an imported project into the open one. The open project's selections win over imported ones.
+export const mergeProjects = (current: ProjectData, incoming: ProjectData, policy: ImportConflictPolicy): ProjectData => ({
+  ...current,
+  attributes: mergeById<ProductAttribute>(current.attributes, incoming.attributes, policy.attributes),
+  rules: mergeById<Rule>(current.rules, incoming.rules, policy.rules),
+  priceRules: mergeById<PriceRule>(current.priceRules || [], incoming.priceRules || [], policy.rules),
+  // Drafts and tests are additive, so keep both sides rather than dropping any
+  drafts: mergeById<Rule>(current.drafts || [], incoming.drafts || [], 'rename'),
+  goldenTests: mergeById<GoldenTest>(current.goldenTests || [], incoming.goldenTests || [], 'rename'),
+  // Component models follow the attribute policy, cross-item rules the rule policy
+  components: mergeById<ComponentModel>(current.components || [], incoming.components || [], policy.attributes),
+  quoteRules: mergeById<QuoteRule>(current.quoteRules || [], incoming.quoteRules || [], policy.rules),
+  config: { ...incoming.config, ...current.config },
+  quote: current.quote?.length ? current.quote : incoming.quote
+});
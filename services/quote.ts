@@ -0,0 +1,127 @@
+import { ProjectData, ComponentModel, LineItem, LineSelector, QuoteRule, QuoteViolation, QuoteValidationResult, QuotePrice, ValidationResult } from '../types';
+import { ValidationEngine, validateDeterministic, deriveAttributes, evaluateExpression, getDefaultConfig } from './engine';
+import { formatValue } from './expressions';
+import { calculatePrice } from './pricing';
+
+// Model id under which quote lines refer to the project's own product
+export const MAIN_MODEL_ID = 'main';
+
+const deterministicEngine: ValidationEngine = { validate: validateDeterministic };
+
+// Every model a quote line can use: the project's own product first, then its components
+export const getQuoteModels = (project: Pick<ProjectData, 'attributes' | 'rules' | 'priceRules' | 'components'>): ComponentModel[] => [
+  { id: MAIN_MODEL_ID, name: 'Main unit', attributes: project.attributes, rules: project.rules, priceRules: project.priceRules },
+  ...(project.components || [])
+];
+
+export const newLineItem = (model: ComponentModel, quantity = 1): LineItem => ({
+  id: `line-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+  model: model.id,
+  quantity,
+  config: getDefaultConfig(model.attributes)
+});
+
+const sumUnits = (lines: LineItem[]) => lines.reduce((sum, line) => sum + line.quantity, 0);
+
+// Lines are matched on their derived configuration, so assignment rules of their model count
+const selectLines = (lines: LineItem[], selector: LineSelector, models: ComponentModel[]): LineItem[] => {
+  const model = models.find(m => m.id === selector.model);
+  if (!model) return [];
+  return lines.filter(line =>
+    line.model === model.id &&
+    (!selector.condition || evaluateExpression(selector.condition, deriveAttributes(line.config, model.rules).config)));
+};
+
+// Checks the approved cross-item rules against the whole quote
+export const evaluateQuoteRules = (lines: LineItem[], models: ComponentModel[], quoteRules: QuoteRule[]): QuoteViolation[] => {
+  const violations: QuoteViolation[] = [];
+
+  for (const rule of quoteRules) {
+    if (!rule.approved) continue;
+    const triggering = selectLines(lines, rule.when, models);
+    if (triggering.length === 0) continue;
+    const targets = selectLines(lines, rule.then, models);
+    const thenName = models.find(m => m.id === rule.then.model)?.name ?? rule.then.model;
+
+    let detail: string | null = null;
+    let involved = triggering;
+    if (rule.type === 'requires') {
+      const needed = Math.ceil((rule.ratio ?? 1) * sumUnits(triggering));
+      const present = sumUnits(targets);
+      if (present < needed) detail = `needs ${needed} × ${thenName}, the quote has ${present}`;
+    } else {
+      // A line matching both selectors does not exclude itself
+      const clashing = targets.filter(target => triggering.some(line => line !== target));
+      if (clashing.length > 0) {
+        detail = `${thenName} cannot be on the same quote`;
+        involved = [...triggering, ...clashing.filter(line => !triggering.includes(line))];
+      }
+    }
+
+    if (detail) {
+      violations.push({
+        rule_id: rule.id,
+        message: `${rule.natural_text} (${detail}).`,
+        severity: rule.strength === 'soft' ? 'warning' : 'error',
+        source: rule.source_doc,
+        line_ids: involved.map(line => line.id)
+      });
+    }
+  }
+
+  return violations;
+};
+
+// Validates each line against its own model, then the quote as a whole against the cross-item rules
+export const validateQuote = async (
+  lines: LineItem[],
+  models: ComponentModel[],
+  quoteRules: QuoteRule[],
+  engine: ValidationEngine = deterministicEngine
+): Promise<QuoteValidationResult> => {
+  const results: Record<string, ValidationResult> = {};
+
+  for (const line of lines) {
+    const model = models.find(m => m.id === line.model);
+    if (!model) {
+      results[line.id] = {
+        isValid: false,
+        violations: [{ rule_id: 'quote-model', message: `Unknown product model "${line.model}".`, severity: 'error', source: 'Quote' }]
+      };
+      continue;
+    }
+    results[line.id] = await engine.validate(line.config, model.rules, model.attributes);
+  }
+
+  const violations = evaluateQuoteRules(lines, models, quoteRules);
+  return {
+    isValid: Object.values(results).every(r => r.isValid) && !violations.some(v => v.severity === 'error'),
+    lines: results,
+    violations
+  };
+};
+
+// Bill of materials: every line priced by its own model, times its quantity
+export const priceQuote = (lines: LineItem[], models: ComponentModel[]): QuotePrice => {
+  const bom = lines.map(line => {
+    const model = models.find(m => m.id === line.model);
+    const config = model ? deriveAttributes(line.config, model.rules).config : line.config;
+    const unitPrice = model ? calculatePrice(config, model.attributes, model.priceRules || []).total : 0;
+    const description = (model?.attributes || [])
+      .filter(attr => config[attr.id] !== undefined && config[attr.id] !== '')
+      .map(attr => formatValue(config[attr.id]))
+      .join(', ');
+
+    return {
+      line_id: line.id,
+      model: line.model,
+      label: model?.name ?? line.model,
+      description,
+      quantity: line.quantity,
+      unitPrice,
+      total: unitPrice * line.quantity
+    };
+  });
+
+  return { lines: bom, total: bom.reduce((sum, line) => sum + line.total, 0) };
+};
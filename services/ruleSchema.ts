@@ -0,0 +1,192 @@
+import { Rule, RuleExpression, RuleCondition, ProductAttribute, AttributeAssignment } from '../types';
+import { operatorsFor, isListOperator, isCountOperator, isRangeOperator, isAndExpression, isOrExpression, isNotExpression } from './expressions';
+import { isComputedValue, isArithmeticExpression, parseFormula, getValueAttributes } from './formula';
+
+// Casts a raw value to the attribute's declared type. Values that cannot be cast are
+// returned unchanged so validateRule can report them.
+export const coerceValue = (value: any, attr: ProductAttribute | undefined): any => {
+  if (value === undefined || value === null) return value;
+  if (Array.isArray(value)) return value.map(v => coerceValue(v, attr)); // Multi-select picks
+
+  if (!attr) {
+    // Unknown attribute: fall back to the old heuristic
+    return typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value)) ? Number(value) : value;
+  }
+
+  switch (attr.type) {
+    case 'number':
+    case 'quantity': {
+      const num = Number(value);
+      return (typeof value === 'string' && value.trim() === '') || isNaN(num) ? value : num;
+    }
+    case 'boolean':
+      if (value === true || value === 'true') return true;
+      if (value === false || value === 'false') return false;
+      return value;
+    default:
+      return String(value);
+  }
+};
+
+const isNumeric = (attr: ProductAttribute | undefined) => attr?.type === 'number' || attr?.type === 'quantity';
+
+// A numeric attribute can also be compared to, or assigned, a formula such as "400 * motor_hp"
+const coerceRuleValue = (value: any, attr: ProductAttribute | undefined): any => {
+  if (isComputedValue(value)) return value;
+  if (isNumeric(attr) && typeof value === 'string' && value.trim() !== '' && isNaN(Number(value))) {
+    return parseFormula(value) ?? value;
+  }
+  return coerceValue(value, attr);
+};
+
+const coerceExpression = (expr: RuleExpression, attributes: ProductAttribute[]): RuleExpression => {
+  if (isAndExpression(expr)) return { and: expr.and.map(e => coerceExpression(e, attributes)) };
+  if (isOrExpression(expr)) return { or: expr.or.map(e => coerceExpression(e, attributes)) };
+  if (isNotExpression(expr)) return { not: coerceExpression(expr.not, attributes) };
+
+  const attr = attributes.find(a => a.id === expr.attribute);
+  let value = expr.value;
+  if (isListOperator(expr.operator)) {
+    // LLMs often send "a, b" for list values
+    const list = Array.isArray(value) ? value : String(value ?? '').split(',').map(v => v.trim()).filter(Boolean);
+    value = list.map(v => coerceValue(v, attr));
+  } else if (isCountOperator(expr.operator)) {
+    const count = Number(value);
+    value = value === '' || isNaN(count) ? value : count;
+  } else {
+    value = coerceRuleValue(value, attr);
+  }
+  return { ...expr, value };
+};
+
+// Coerces every leaf value of a rule to its attribute's type.
+export const coerceRule = (rule: Rule, attributes: ProductAttribute[]): Rule => ({
+  ...rule,
+  condition: rule.condition ? coerceExpression(rule.condition, attributes) : rule.condition,
+  consequence: rule.consequence ? coerceExpression(rule.consequence, attributes) : rule.consequence,
+  assignment: rule.assignment
+    ? { ...rule.assignment, value: coerceRuleValue(rule.assignment.value, attributes.find(a => a.id === rule.assignment!.attribute)) }
+    : rule.assignment
+});
+
+const checkValue = (value: any, attr: ProductAttribute, where: string): string[] => {
+  if ((attr.type === 'number' || attr.type === 'quantity') && typeof value !== 'number') {
+    return [`${where}: "${value}" is not a number.`];
+  }
+  if (attr.type === 'quantity' && !Number.isInteger(value)) {
+    return [`${where}: ${attr.name} is a whole number, not ${value}.`];
+  }
+  if (attr.type === 'boolean' && typeof value !== 'boolean') {
+    return [`${where}: "${value}" is not true or false.`];
+  }
+  if (attr.options && attr.options.length > 0 && !attr.options.some(opt => opt.value == value)) {
+    return [`${where}: "${value}" is not an option of ${attr.name} (${attr.options.map(o => o.value).join(', ')}).`];
+  }
+  return [];
+};
+
+const COMPARISON_OPERATORS = ['==', '!=', '>', '>=', '<', '<='];
+
+const checkFormula = (value: any, attr: ProductAttribute, attributes: ProductAttribute[], where: string): string[] => {
+  if (!isNumeric(attr)) return [`${where}: ${attr.name} is not numeric, so it cannot be computed from a formula.`];
+  const problems = getValueAttributes(value).flatMap(id => {
+    const ref = attributes.find(a => a.id === id);
+    if (!ref) return [`${where}: unknown attribute "${id}" in formula.`];
+    return isNumeric(ref) ? [] : [`${where}: ${ref.name} is not numeric and cannot be used in a formula.`];
+  });
+  const checkNode = (node: any): string[] => {
+    if (typeof node === 'number') return Number.isFinite(node) ? [] : [`${where}: "${node}" is not a number.`];
+    if (!isArithmeticExpression(node)) return isComputedValue(node) ? [] : [`${where}: "${node}" is not a number or attribute.`];
+    if (!['+', '-', '*', '/', 'min', 'max'].includes(node.op)) return [`${where}: unknown arithmetic operator "${node.op}".`];
+    if (node.args.length === 0 || (node.args.length === 1 && node.op !== '-' && node.op !== 'min' && node.op !== 'max')) {
+      return [`${where}: "${node.op}" is missing an operand.`];
+    }
+    return node.args.flatMap(checkNode);
+  };
+  return [...problems, ...checkNode(value)];
+};
+
+const validateCondition = (cond: RuleCondition, attributes: ProductAttribute[], where: string): string[] => {
+  const attr = attributes.find(a => a.id === cond.attribute);
+  if (!cond.attribute || !attr) {
+    return [`${where}: unknown attribute "${cond.attribute ?? ''}".`];
+  }
+  const allowed = operatorsFor(attr);
+  if (!allowed.includes(cond.operator)) {
+    return [`${where}: operator "${cond.operator}" does not apply to ${attr.name} (${attr.type}), use ${allowed.join(' ')}.`];
+  }
+
+  if (isComputedValue(cond.value)) {
+    if (!COMPARISON_OPERATORS.includes(cond.operator)) {
+      return [`${where}: operator "${cond.operator}" cannot compare against a formula.`];
+    }
+    return checkFormula(cond.value, attr, attributes, where);
+  }
+
+  if (isListOperator(cond.operator)) {
+    if (!Array.isArray(cond.value) || cond.value.length === 0) {
+      return [`${where}: "${cond.operator}" needs a list of values.`];
+    }
+    return cond.value.flatMap(v => checkValue(v, attr, where));
+  }
+
+  if (cond.value === undefined || cond.value === null || cond.value === '') {
+    return [`${where}: missing value for ${attr.name}.`];
+  }
+  if (isCountOperator(cond.operator)) {
+    return Number.isInteger(cond.value) && cond.value >= 0 ? [] : [`${where}: "${cond.value}" is not a number of options.`];
+  }
+  // Range comparisons against a numeric attribute need not hit an exact option
+  if (isRangeOperator(cond.operator)) {
+    return typeof cond.value === 'number' ? [] : [`${where}: "${cond.value}" is not a number.`];
+  }
+  return checkValue(cond.value, attr, where);
+};
+
+export const validateExpression = (expr: RuleExpression | undefined, attributes: ProductAttribute[], where: string): string[] => {
+  if (!expr || typeof expr !== 'object') return [`${where} is missing.`];
+
+  if (isAndExpression(expr) || isOrExpression(expr)) {
+    const members = isAndExpression(expr) ? expr.and : expr.or;
+    if (members.length === 0) return [`${where}: empty ${isAndExpression(expr) ? 'AND' : 'OR'} group.`];
+    return members.flatMap(e => validateExpression(e, attributes, where));
+  }
+  if (isNotExpression(expr)) return validateExpression(expr.not, attributes, where);
+
+  return validateCondition(expr, attributes, where);
+};
+
+// An assignment sets a value like "==" tests one; a multi-select is assigned a list of picks
+const validateAssignment = (assignment: AttributeAssignment, attributes: ProductAttribute[]): string[] => {
+  const attr = attributes.find(a => a.id === assignment.attribute);
+  if (attr && isComputedValue(assignment.value)) return checkFormula(assignment.value, attr, attributes, 'Assignment');
+  if (attr?.type !== 'multi') return validateCondition({ ...assignment, operator: '==' }, attributes, 'Assignment');
+  if (!Array.isArray(assignment.value)) return [`Assignment: ${attr.name} needs a list of options.`];
+  return assignment.value.flatMap(v => checkValue(v, attr, 'Assignment'));
+};
+
+// Checks a rule against the product data model. Returns one message per problem; empty means valid.
+export const validateRule = (rule: Rule, attributes: ProductAttribute[]): string[] => {
+  const problems: string[] = [];
+
+  if (!['implication', 'exclusion', 'assignment'].includes(rule.type)) {
+    problems.push(`Unknown rule type "${rule.type}".`);
+  }
+  if (rule.strength !== undefined && !['hard', 'soft'].includes(rule.strength)) {
+    problems.push(`Unknown rule strength "${rule.strength}" (use hard or soft).`);
+  }
+  problems.push(...validateExpression(rule.condition, attributes, 'Condition'));
+  if (rule.type === 'implication') {
+    problems.push(...validateExpression(rule.consequence, attributes, 'Consequence'));
+  }
+  if (rule.type === 'assignment') {
+    problems.push(...(rule.assignment ? validateAssignment(rule.assignment, attributes) : ['Assignment is missing.']));
+  }
+
+  return problems;
+};
+
+// Rules that are valid against the current model but would break under a changed one,
+// e.g. because an attribute or option value they refer to was removed.
+export const findOrphanedRules = (rules: Rule[], before: ProductAttribute[], after: ProductAttribute[]): Rule[] =>
+  rules.filter(rule => validateRule(rule, before).length === 0 && validateRule(rule, after).length > 0);
@@ -0,0 +1,172 @@
+import { ProjectData, ProjectSummary, ProjectFieldError } from '../types';
+import { INITIAL_RULES, INITIAL_PRICE_RULES, ATTRIBUTES, COMPONENTS, INITIAL_QUOTE_RULES } from './mockData';
+import { getDefaultConfig } from './engine';
+import { migrateProject, validateProjectData, CURRENT_FORMAT_VERSION } from './projectFormat';
+import { MAIN_MODEL_ID } from './quote';
+
+// Local workspace: an index of projects plus one localStorage entry per project,
+// so switching projects only parses the one being opened.
+const INDEX_KEY = 'cpq.workspace';
+const ACTOR_KEY = 'cpq.actor';
+const projectKey = (id: string) => `cpq.project.${id}`;
+const invalidKey = (id: string) => `${projectKey(id)}.invalid`;
+
+export interface Workspace {
+  activeId: string;
+  projects: ProjectSummary[];
+}
+
+const newProjectId = () => `project-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+// The bundled motor model, used to seed an empty workspace
+export const createSampleProject = (): ProjectData => ({
+  formatVersion: CURRENT_FORMAT_VERSION,
+  attributes: ATTRIBUTES,
+  rules: INITIAL_RULES,
+  drafts: [],
+  auditLog: [],
+  goldenTests: [],
+  priceRules: INITIAL_PRICE_RULES,
+  config: getDefaultConfig(ATTRIBUTES),
+  components: COMPONENTS,
+  quoteRules: INITIAL_QUOTE_RULES,
+  quote: [{ id: 'line-1', model: MAIN_MODEL_ID, quantity: 1, config: getDefaultConfig(ATTRIBUTES) }]
+});
+
+export const createEmptyProject = (): ProjectData => ({
+  formatVersion: CURRENT_FORMAT_VERSION,
+  attributes: [],
+  rules: [],
+  drafts: [],
+  auditLog: [],
+  goldenTests: [],
+  priceRules: [],
+  config: {},
+  components: [],
+  quoteRules: [],
+  quote: []
+});
+
+const writeIndex = (workspace: Workspace) => {
+  localStorage.setItem(INDEX_KEY, JSON.stringify(workspace));
+};
+
+const readIndex = (): Workspace | null => {
+  try {
+    const raw = localStorage.getItem(INDEX_KEY);
+    if (!raw) return null;
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed?.projects) && parsed.projects.length > 0 ? parsed : null;
+  } catch (e) {
+    console.error("Failed to read the project workspace", e);
+    return null;
+  }
+};
+
+// Stored data is checked like an import. An entry that fails is copied aside before null is
+// returned, since the caller's fallback project would otherwise be autosaved over it.
+export const loadProject = (id: string, onInvalid?: (errors: ProjectFieldError[]) => void): ProjectData | null => {
+  let raw: string | null = null;
+  try {
+    raw = localStorage.getItem(projectKey(id));
+    if (!raw) return null;
+    // Projects saved by an older version of the app are upgraded on load
+    const { data } = migrateProject(JSON.parse(raw));
+    const errors = validateProjectData(data);
+    if (errors.length === 0) return data;
+
+    console.error(`Project ${id} failed validation`, errors);
+    localStorage.setItem(invalidKey(id), raw);
+    onInvalid?.(errors);
+    return null;
+  } catch (e) {
+    console.error(`Failed to read project ${id}`, e);
+    if (raw) {
+      try {
+        localStorage.setItem(invalidKey(id), raw);
+      } catch {
+        // Storage is full; nothing more can be kept
+      }
+    }
+    onInvalid?.([{ path: '', message: 'The stored project is not valid JSON.' }]);
+    return null;
+  }
+};
+
+// Persists a project and bumps its timestamp in the index. Returns false when storage is
+// unavailable or full, so the caller can tell the user their work is not being kept.
+export const saveProject = (id: string, data: ProjectData): boolean => {
+  try {
+    localStorage.setItem(projectKey(id), JSON.stringify(data));
+    const workspace = readIndex();
+    if (workspace) {
+      writeIndex({
+        ...workspace,
+        projects: workspace.projects.map(p => p.id === id ? { ...p, updatedAt: new Date().toISOString() } : p)
+      });
+    }
+    return true;
+  } catch (e) {
+    console.error(`Failed to save project ${id}`, e);
+    return false;
+  }
+};
+
+export const createProject = (workspace: Workspace, name: string, data: ProjectData): Workspace => {
+  const summary: ProjectSummary = { id: newProjectId(), name, updatedAt: new Date().toISOString() };
+  localStorage.setItem(projectKey(summary.id), JSON.stringify(data));
+  const next = { activeId: summary.id, projects: [...workspace.projects, summary] };
+  writeIndex(next);
+  return next;
+};
+
+// Reads the workspace, seeding it with the sample project on first run
+export const loadWorkspace = (): Workspace => {
+  const existing = readIndex();
+  if (existing) {
+    // The active project may have been deleted from another tab
+    return existing.projects.some(p => p.id === existing.activeId)
+      ? existing
+      : { ...existing, activeId: existing.projects[0].id };
+  }
+  return createProject({ activeId: '', projects: [] }, 'Motor System (sample)', createSampleProject());
+};
+
+export const setActiveProject = (workspace: Workspace, id: string): Workspace => {
+  const next = { ...workspace, activeId: id };
+  writeIndex(next);
+  return next;
+};
+
+export const renameProject = (workspace: Workspace, id: string, name: string): Workspace => {
+  const next = { ...workspace, projects: workspace.projects.map(p => p.id === id ? { ...p, name } : p) };
+  writeIndex(next);
+  return next;
+};
+
+export const duplicateProject = (workspace: Workspace, id: string): Workspace => {
+  const source = workspace.projects.find(p => p.id === id);
+  const data = loadProject(id);
+  if (!source || !data) return workspace;
+  return createProject(workspace, `${source.name} (copy)`, data);
+};
+
+// Deleting the last project leaves an empty one behind, the app always needs an active project
+export const deleteProject = (workspace: Workspace, id: string): Workspace => {
+  localStorage.removeItem(projectKey(id));
+  localStorage.removeItem(invalidKey(id));
+  const remaining = workspace.projects.filter(p => p.id !== id);
+  if (remaining.length === 0) {
+    return createProject({ activeId: '', projects: [] }, 'Untitled project', createEmptyProject());
+  }
+  const next = { activeId: workspace.activeId === id ? remaining[0].id : workspace.activeId, projects: remaining };
+  writeIndex(next);
+  return next;
+};
+
+// Name recorded as "who" in the audit log; kept per browser, not per project
+export const loadActor = (): string => localStorage.getItem(ACTOR_KEY) || 'local user';
+
+export const saveActor = (name: string) => {
+  localStorage.setItem(ACTOR_KEY, name);
+};
@@ -1,6 +1,9 @@
 import { init } from 'z3-solver';
-import { Configuration, Rule, ProductAttribute, ValidationResult, ValidationViolation } from '../types';
+import { Configuration, Rule, RuleExpression, ProductAttribute, ValidationResult, ValidationViolation, AttributeDomains, CompletionResult, PriceRule, OptimizationGoal, OptimizationResult } from '../types';
 import { ValidationEngine } from './engine';
+import { isAndExpression, isOrExpression, isNotExpression, getRuleAttributes, isSoftRule } from './expressions';
+import { calculatePrice, formatPrice } from './pricing';
+import { isComputedValue, isAttributeRef } from './formula';
 
 // Singleton Z3 Context
 let z3: any = null;
@@ -13,10 +16,489 @@ export const initZ3 = async () => {
     return Context;
 };
 
-// Locking mechanism
-let isRunning = false;
+// --- MAPPING LOGIC ---
+// String sort is missing in this build, so we map everything to Ints.
+// Z3 Ints will represent our categorical strings.
+const buildEncoding = (attributes: ProductAttribute[]) => {
+    const { Int, Real, Bool, Or, Not, And, Eq, Implies, If, ToReal } = Context;
 
-export const validateZ3 = async (
+    // Map: AttributeId -> { "valueString": intCode }
+    const valueMap: Record<string, Record<string, number>> = {};
+    const reverseValueMap: Record<string, Record<number, string>> = {};
+
+    // Initialize mapping from Schema
+    attributes.forEach(attr => {
+        valueMap[attr.id] = {};
+        reverseValueMap[attr.id] = {};
+        let counter = 1;
+
+        // Add defined options
+        attr.options?.forEach(opt => {
+            const valStr = String(opt.value);
+            valueMap[attr.id][valStr] = counter;
+            reverseValueMap[attr.id][counter] = valStr;
+            counter++;
+        });
+    });
+
+    // Helper to get int code for a value (auto-adding if new literal found in rules)
+    const getCode = (attrId: string, val: any): number => {
+        const valStr = String(val);
+
+        // Quantities are whole numbers and go in as they are; categorical values are mapped to codes
+        const attr = attributes.find(a => a.id === attrId);
+        if (attr && attr.type === 'quantity') {
+            return Number(val);
+        }
+
+        // Categorical / String / Boolean fallback
+        if (!valueMap[attrId]) {
+            valueMap[attrId] = {};
+            reverseValueMap[attrId] = {};
+        }
+
+        if (valueMap[attrId][valStr] === undefined) {
+            // Assign next code
+            const nextCode = Object.keys(valueMap[attrId]).length + 1;
+            valueMap[attrId][valStr] = nextCode;
+            reverseValueMap[attrId][nextCode] = valStr;
+        }
+
+        return valueMap[attrId][valStr];
+    };
+
+    // Option codes start at 1, so 0 can stand for "not chosen" (see domainConstraints)
+    const UNSET_CODE = 0;
+
+    // Number attributes are Reals so free-entry values like 7.5 hp keep their decimals
+    const isReal = (attrId: string) => attributes.find(a => a.id === attrId)?.type === 'number';
+    const attrVar = (attrId: string) => isReal(attrId) ? Real.const(attrId) : Int.const(attrId);
+    const valueToZ3 = (attrId: string, val: any) => isReal(attrId) ? Real.val(Number(val)) : Int.val(getCode(attrId, val));
+
+    // Multi-select attributes get one Bool per option instead of an Int: "is this option picked".
+    // Values outside the option list can never be picked.
+    const multiOptions = (attrId: string) => {
+        const attr = attributes.find(a => a.id === attrId);
+        return attr?.type === 'multi' ? attr.options || [] : null;
+    };
+
+    const optionPicked = (attrId: string, val: any) =>
+        multiOptions(attrId)!.some(opt => opt.value == val) ? Bool.const(`${attrId}::${String(val)}`) : Bool.val(false);
+
+    const pickCount = (attrId: string) =>
+        multiOptions(attrId)!.reduce((sum: any, opt) => sum.add(If(optionPicked(attrId, opt.value), Int.val(1), Int.val(0))), Int.val(0));
+
+    const multiToZ3 = (attrId: string, op: string, val: any) => {
+        switch (op) {
+            case 'contains': return optionPicked(attrId, val);
+            case 'containsAny': return Array.isArray(val) && val.length > 0 ? Or(...val.map(v => optionPicked(attrId, v))) : Bool.val(false);
+            case 'count>=': return pickCount(attrId).ge(Int.val(Number(val)));
+            case 'count<=': return pickCount(attrId).le(Int.val(Number(val)));
+            default: return Bool.val(false);
+        }
+    };
+
+    // --- Z3 TRANSLATION ---
+
+    // Formulas are evaluated over the Reals, with quantities lifted from Int
+    const realTerm = (attrId: string) => isReal(attrId) ? Real.const(attrId) : ToReal(Int.const(attrId));
+    const formulaToZ3 = (value: any): any => {
+        if (typeof value === 'number') return Real.val(value);
+        if (isAttributeRef(value)) return realTerm(value.ref);
+
+        const args = value.args.map(formulaToZ3);
+        switch (value.op) {
+            case '+': return args.reduce((a: any, b: any) => a.add(b));
+            case '-': return args.length === 1 ? args[0].neg() : args.reduce((a: any, b: any) => a.sub(b));
+            case '*': return args.reduce((a: any, b: any) => a.mul(b));
+            case '/': return args.reduce((a: any, b: any) => a.div(b));
+            case 'min': return args.reduce((a: any, b: any) => If(a.le(b), a, b));
+            case 'max': return args.reduce((a: any, b: any) => If(a.ge(b), a, b));
+            default: throw new Error(`Unknown arithmetic operator ${value.op}`);
+        }
+    };
+
+    const getZ3Expr = (attrId: string, op: string, val: any) => {
+        if (multiOptions(attrId)) return multiToZ3(attrId, op, val);
+
+        const computed = isComputedValue(val);
+        const z3Var = computed ? realTerm(attrId) : attrVar(attrId);
+        const z3Val = computed ? formulaToZ3(val) : valueToZ3(attrId, val);
+
+        switch (op) {
+            case '==': return Eq(z3Var, z3Val);
+            case '!=': return Not(Eq(z3Var, z3Val));
+            case '>': return z3Var.gt(z3Val);
+            case '>=': return z3Var.ge(z3Val);
+            case '<': return z3Var.lt(z3Val);
+            case '<=': return z3Var.le(z3Val);
+            case 'in':
+                // val should be array
+                if (Array.isArray(val)) {
+                    const opts = val.map(v => Eq(z3Var, valueToZ3(attrId, v)));
+                    // Or(eq1, eq2, ...)
+                    return Or(...opts);
+                }
+                return Eq(z3Var, z3Val);
+            default: return Eq(z3Var, z3Val);
+        }
+    }
+
+    // Recursively translates AND / OR / NOT trees down to getZ3Expr leaves.
+    const toZ3 = (expr: RuleExpression): any => {
+        if (isAndExpression(expr)) return And(...expr.and.map(toZ3));
+        if (isOrExpression(expr)) return Or(...expr.or.map(toZ3));
+        if (isNotExpression(expr)) return Not(toZ3(expr.not));
+        return getZ3Expr(expr.attribute, expr.operator, expr.value);
+    }
+
+    // A multi-select selection pins every option: the listed ones picked, all others not
+    const selectionToZ3 = (attrId: string, value: any) => {
+        const options = multiOptions(attrId);
+        if (!options) return Eq(attrVar(attrId), valueToZ3(attrId, value));
+
+        const picked: any[] = Array.isArray(value) ? value : [value];
+        if (picked.some(v => !options.some(opt => opt.value == v))) return Bool.val(false);
+        return And(...options.map(opt => {
+            const literal = optionPicked(attrId, opt.value);
+            return picked.some(v => v == opt.value) ? literal : Not(literal);
+        }));
+    };
+
+    // Full constraint for an approved rule, or null if it cannot be expressed.
+    const ruleToZ3 = (rule: Rule): any => {
+        const cond = toZ3(rule.condition);
+
+        if (rule.type === 'implication') {
+            if (!rule.consequence) return null;
+            return Implies(cond, toZ3(rule.consequence));
+        } else if (rule.type === 'assignment') {
+            // Derived attributes are plain equalities under the condition
+            if (!rule.assignment) return null;
+            const { attribute, value } = rule.assignment;
+            return Implies(cond, isComputedValue(value) ? getZ3Expr(attribute, '==', value) : selectionToZ3(attribute, value));
+        } else if (rule.type === 'exclusion') {
+            return Not(cond);
+        }
+        return null;
+    }
+
+    // A free-entry number stays within its range and, given a step, on the grid counted from its minimum
+    const numberRange = (attr: ProductAttribute): any[] => {
+        const value = Real.const(attr.id);
+        const steps = Int.const(`${attr.id}::steps`);
+        return [
+            ...(attr.min !== undefined ? [value.ge(Real.val(attr.min))] : []),
+            ...(attr.max !== undefined ? [value.le(Real.val(attr.max))] : []),
+            ...(attr.step ? [Eq(value, Real.val(attr.min ?? 0).add(ToReal(steps).mul(Real.val(attr.step))))] : [])
+        ];
+    };
+
+    // Attributes with a fixed option list can only ever take one of those values, or stay unset
+    // when they are optional categorical attributes. Numbers, quantities and the number of picks
+    // of a multi-select stay within their bounds.
+    const domainConstraints = () => attributes.flatMap(attr => {
+        if (attr.type === 'multi') {
+            // Zero picks stays allowed unless the attribute is required
+            const count = pickCount(attr.id);
+            const min = Math.max(attr.min ?? 0, attr.required ? 1 : 0);
+            const atLeastMin = count.ge(Int.val(min));
+            return [
+                ...(min > 0 ? [attr.required ? atLeastMin : Or(count.eq(Int.val(0)), atLeastMin)] : []),
+                ...(attr.max !== undefined ? [count.le(Int.val(attr.max))] : [])
+            ];
+        }
+        if (attr.type === 'quantity') {
+            const amount = Int.const(attr.id);
+            return [
+                amount.ge(Int.val(attr.min ?? 0)),
+                ...(attr.max !== undefined ? [amount.le(Int.val(attr.max))] : [])
+            ];
+        }
+        const range = attr.type === 'number' ? numberRange(attr) : [];
+        if (!attr.options || attr.options.length === 0) return range;
+        // A Real has no value that stays clear of every comparison, so numbers always take an option
+        const unset = !attr.required && attr.type !== 'number' ? [Eq(Int.const(attr.id), Int.val(UNSET_CODE))] : [];
+        return [...range, Or(...unset, ...attr.options.map(opt => selectionToZ3(attr.id, opt.value)))];
+    });
+
+    // Reads an attribute back out of a model, mapping categorical codes through reverseValueMap.
+    const decode = (model: any, attr: ProductAttribute): any => {
+        if (attr.type === 'multi') {
+            const picked = (attr.options || [])
+                .filter(opt => Context.isTrue(model.eval(optionPicked(attr.id, opt.value), true)))
+                .map(opt => opt.value);
+            return picked.length > 0 ? picked : undefined;
+        }
+
+        if (attr.type === 'number') return model.eval(Real.const(attr.id), true).asNumber();
+
+        const code = Number(model.eval(Int.const(attr.id), true).toString());
+        if (attr.type === 'quantity') return code;
+
+        const valStr = reverseValueMap[attr.id]?.[code];
+        if (valStr === undefined) return undefined;
+        // Hand back the option's own value so booleans and numbers keep their type
+        const option = attr.options?.find(opt => String(opt.value) === valStr);
+        return option ? option.value : valStr;
+    };
+
+    // Total price as a Real term, mirroring calculatePrice in pricing.ts. Only attributes with
+    // an option list are priced, since only their values are known to the solver.
+    const priceToZ3 = (priceRules: PriceRule[]): any => {
+        let subtotal = Real.val(0);
+
+        for (const attr of attributes) {
+            if (!attr.options || attr.options.length === 0) continue;
+            const isMulti = attr.type === 'multi';
+            const picked = (value: any) => isMulti ? optionPicked(attr.id, value) : selectionToZ3(attr.id, value);
+
+            // Multi-selects and optional attributes may be left unset, so the base price depends on any pick
+            if (attr.basePrice) {
+                subtotal = subtotal.add(If(Or(...attr.options.map(opt => picked(opt.value))), Real.val(attr.basePrice), Real.val(0)));
+            }
+            for (const opt of attr.options) {
+                if (opt.price) subtotal = subtotal.add(If(picked(opt.value), Real.val(opt.price), Real.val(0)));
+            }
+        }
+
+        const adjustment = (amount: number | undefined, percent: number | undefined) =>
+            Real.val(amount || 0).add(subtotal.mul(Real.val((percent || 0) / 100)));
+
+        let total = subtotal;
+        for (const rule of priceRules) {
+            let delta: any;
+            if (rule.type === 'tier') {
+                if (!rule.attribute || !rule.tiers) continue;
+                // Nested If from the highest threshold down picks the highest matching tier
+                delta = [...rule.tiers]
+                    .sort((a, b) => a.min - b.min)
+                    .reduce((acc: any, tier) => If(attrVar(rule.attribute!).ge(valueToZ3(rule.attribute!, tier.min)), adjustment(tier.amount, tier.percent).neg(), acc), Real.val(0));
+            } else {
+                const magnitude = adjustment(rule.amount, rule.percent);
+                delta = rule.type === 'discount' ? magnitude.neg() : magnitude;
+            }
+            total = total.add(rule.condition ? If(toZ3(rule.condition), delta, Real.val(0)) : delta);
+        }
+
+        return total;
+    };
+
+    return { valueMap, reverseValueMap, getCode, toZ3, ruleToZ3, selectionToZ3, domainConstraints, decode, priceToZ3 };
+};
+
+// An assumption literal guards one rule or one user selection, so that an unsat
+// answer can be traced back to the exact inputs that conflict.
+export interface TrackedAssumption {
+    literal: any;
+    kind: 'rule' | 'selection';
+    rule?: Rule;
+    attribute?: string;
+}
+
+// Deletion-based core minimisation: drop each assumption in turn and keep it
+// out whenever the remainder is still unsat. The result is a minimal conflict.
+export const minimizeCore = async (solver: any, assumptions: TrackedAssumption[]): Promise<TrackedAssumption[]> => {
+    let core = [...assumptions];
+    for (const candidate of assumptions) {
+        const without = core.filter(a => a !== candidate);
+        const result = await solver.check(...without.map(a => a.literal));
+        if (result === 'unsat') {
+            core = without;
+        }
+    }
+    return core;
+};
+
+// Turns a minimal core into one violation per rule, blaming only the selections
+// that take part in the conflict. Hard assignment rules in the core are context, as in
+// the deterministic engine: they derive values rather than restrict choices, so they are
+// reported only when nothing else is to blame. A rule over a derived attribute blames the
+// selections the core's derivations take it from.
+const coreToViolations = (core: TrackedAssumption[]): ValidationViolation[] => {
+    const coreSelections = core.filter(a => a.kind === 'selection').map(a => a.attribute!);
+    const coreRules = core.filter(a => a.kind === 'rule').map(a => a.rule!);
+    const derivations = coreRules.filter(rule => rule.type === 'assignment');
+    const constraints = coreRules.filter(rule => rule.type !== 'assignment');
+    const reported = constraints.length > 0 ? constraints : coreRules;
+
+    const tracedAttributes = (rule: Rule): string[] => {
+        const attrs = getRuleAttributes(rule);
+        for (let i = 0; i < attrs.length; i++) {
+            derivations
+                .filter(d => d !== rule && d.assignment?.attribute === attrs[i])
+                .forEach(d => getRuleAttributes(d).forEach(attrId => { if (!attrs.includes(attrId)) attrs.push(attrId); }));
+        }
+        return attrs;
+    };
+
+    const violations: ValidationViolation[] = reported.map(rule => {
+        const blamed = tracedAttributes(rule).filter(attrId => coreSelections.includes(attrId));
+        return {
+            rule_id: rule.id,
+            message: rule.natural_text,
+            severity: 'error',
+            source: rule.source_doc || 'Z3 SAT Solver',
+            involvedAttributes: blamed.length > 0 ? blamed : coreSelections
+        };
+    });
+
+    if (coreRules.length === 0) {
+        violations.push({
+            rule_id: 'z3-constraint',
+            message: "These selections cannot be combined (Detected by Z3 Engine).",
+            severity: 'error',
+            source: 'Z3 SAT Solver',
+            involvedAttributes: coreSelections
+        });
+    }
+
+    return violations;
+};
+
+// A soft rule's constraint, kept out of the hard assertions so it can be added to an
+// Optimize instance as a weighted soft constraint.
+export interface SoftRule {
+    rule: Rule;
+    constraint: any;
+}
+
+// Builds a solver holding every approved hard rule and every user selection behind
+// its own assumption literal. Callers pass the literals to check(). Soft rules are
+// returned untouched; only an Optimize instance can weigh them (see addSoftRules).
+export const buildTrackedSolver = (config: Configuration, rules: Rule[], attributes: ProductAttribute[], solver: any = new Context.Solver()) => {
+    const { Bool, Implies } = Context;
+
+    const encoding = buildEncoding(attributes);
+    const assumptions: TrackedAssumption[] = [];
+    const softRules: SoftRule[] = [];
+
+    encoding.domainConstraints().forEach((c: any) => solver.add(c));
+
+    // Assert Rules, each guarded by its own assumption literal
+    for (const rule of rules) {
+        if (!rule.approved) continue;
+
+        try {
+            const constraint = encoding.ruleToZ3(rule);
+            if (!constraint) continue;
+            if (isSoftRule(rule)) {
+                softRules.push({ rule, constraint });
+                continue;
+            }
+
+            const literal = Bool.const(`rule::${rule.id}`);
+            solver.add(Implies(literal, constraint));
+            assumptions.push({ literal, kind: 'rule', rule });
+        } catch (e) {
+            console.warn("Skipping rule translation", e);
+        }
+    }
+
+    // Assert User Config (Assumptions)
+    for (const [key, value] of Object.entries(config)) {
+        if (value !== undefined && value !== "" && !(Array.isArray(value) && value.length === 0)) {
+            const literal = Bool.const(`selection::${key}`);
+            solver.add(Implies(literal, encoding.selectionToZ3(key, value)));
+            assumptions.push({ literal, kind: 'selection', attribute: key });
+        }
+    }
+
+    return { solver, encoding, assumptions, softRules };
+};
+
+// Soft rules become weighted soft constraints, so Optimize gives up the cheapest set of
+// them (by summed priority) when they cannot all hold.
+export const addSoftRules = (optimizer: any, softRules: SoftRule[]) => {
+    softRules.forEach(({ rule, constraint }) => optimizer.addSoft(constraint, Math.max(1, rule.priority)));
+};
+
+// Warnings for the soft rules a model had to break
+const brokenSoftRules = (model: any, softRules: SoftRule[]): ValidationViolation[] =>
+    softRules
+        .filter(({ constraint }) => Context.isFalse(model.eval(constraint, true)))
+        .map(({ rule }) => ({
+            rule_id: rule.id,
+            message: rule.natural_text,
+            severity: 'warning',
+            source: rule.source_doc || 'Z3 Optimizer',
+            involvedAttributes: getRuleAttributes(rule),
+            weight: rule.priority
+        }));
+
+// --- REQUEST QUEUE ---
+// The shared context serves one check at a time, so every request waits its turn.
+// Requests on the same channel (e.g. live validation while the user clicks through
+// options) supersede each other: only the latest one is answered. Earlier ones still
+// waiting are dropped, one already running has its result discarded; both reject
+// with Z3Cancelled.
+export class Z3Cancelled extends Error {
+    constructor() {
+        super('Superseded by a newer Z3 request');
+    }
+}
+
+// Thrown for a request that ran past the time limit set with setZ3TimeLimit
+export class Z3Timeout extends Error {
+    constructor(ms: number) {
+        super(`Z3 did not answer within ${ms / 1000}s`);
+    }
+}
+
+let queueTail: Promise<unknown> = Promise.resolve();
+const latestTicket: Record<string, number> = {};
+
+// Off by default: in the browser the worker engine enforces its own timeout by restarting
+// the worker. Headless callers (CLI, HTTP API) set one so a stuck check cannot hold the queue.
+let timeLimitMs: number | undefined;
+
+export const setZ3TimeLimit = (ms?: number) => {
+    timeLimitMs = ms;
+};
+
+// A task past the time limit is interrupted. Z3 then answers 'unknown' to the check in
+// progress and, since the interrupt repeats, to any later check of the task, so the task
+// ends quickly and frees the queue. Whatever it returns or throws is replaced by Z3Timeout.
+const withTimeLimit = async <T>(task: () => Promise<T>): Promise<T> => {
+    const limit = timeLimitMs;
+    if (limit === undefined) return task();
+
+    let timedOut = false;
+    let repeat: ReturnType<typeof setInterval> | undefined;
+    const timer = setTimeout(() => {
+        timedOut = true;
+        Context?.interrupt();
+        repeat = setInterval(() => Context?.interrupt(), 50);
+    }, limit);
+
+    try {
+        const result = await task();
+        if (timedOut) throw new Z3Timeout(limit);
+        return result;
+    } catch (e) {
+        throw timedOut ? new Z3Timeout(limit) : e;
+    } finally {
+        clearTimeout(timer);
+        clearInterval(repeat);
+    }
+};
+
+export const enqueueZ3 = <T>(task: () => Promise<T>, channel?: string): Promise<T> => {
+    let ticket = 0;
+    if (channel) ticket = latestTicket[channel] = (latestTicket[channel] || 0) + 1;
+    const isStale = () => channel !== undefined && latestTicket[channel] !== ticket;
+
+    const run = queueTail.then(async () => {
+        if (isStale()) throw new Z3Cancelled();
+        const result = await withTimeLimit(task);
+        if (isStale()) throw new Z3Cancelled();
+        return result;
+    });
+    queueTail = run.catch(() => undefined);
+    return run;
+};
+
+const validateNow = async (
     config: Configuration,
     rules: Rule[],
     attributes: ProductAttribute[]
@@ -24,160 +506,296 @@ export const validateZ3 = async (
 
     const violations: ValidationViolation[] = [];
 
-    if (isRunning) {
-        console.warn("Z3 skipped: Previous validation still running");
-        return { isValid: true, violations: [] };
-    }
+    if (!Context) await initZ3();
+    const { solver, assumptions } = buildTrackedSolver(config, rules, attributes);
 
-    isRunning = true;
-    try {
-        if (!Context) await initZ3();
-        // String sort is missing in this build, so we map everything to Ints.
-        const { Solver, Int, Or, Implies, Not, And, Eq } = Context;
-
-        const solver = new Solver();
-
-        // --- MAPPING LOGIC ---
-        // Z3 Ints will represent our categorical strings.
-        // Map: AttributeId -> { "valueString": intCode }
-        const valueMap: Record<string, Record<string, number>> = {};
-        const reverseValueMap: Record<string, Record<number, string>> = {};
-
-        // Initialize mapping from Schema
-        attributes.forEach(attr => {
-            valueMap[attr.id] = {};
-            reverseValueMap[attr.id] = {};
-            let counter = 1;
-
-            // Add defined options
-            attr.options?.forEach(opt => {
-                const valStr = String(opt.value);
-                valueMap[attr.id][valStr] = counter;
-                reverseValueMap[attr.id][counter] = valStr;
-                counter++;
-            });
-        });
+    // Check SAT. Each unsat answer is explained by one minimal core; the
+    // rules in it are then set aside so independent conflicts surface too.
+    let active = assumptions;
+    while (await solver.check(...active.map(a => a.literal)) === 'unsat') {
+        const core = await minimizeCore(solver, active);
+        const coreViolations = coreToViolations(core);
+        violations.push(...coreViolations);
 
-        // Helper to get int code for a value (auto-adding if new literal found in rules)
-        const getCode = (attrId: string, val: any): number => {
-            const valStr = String(val);
+        // Selections that conflict without any rule involved
+        if (coreViolations.some(v => v.rule_id === 'z3-constraint')) break;
 
-            // If it's a raw number and the attribute seems numeric, we might treat it as a number?
-            // But for safety in this refactor, let's treat *categorical* as mapped ints, 
-            // and *numeric* attributes as raw ints.
-            const attr = attributes.find(a => a.id === attrId);
-            if (attr && attr.type === 'number') {
-                return Number(val);
-            }
+        active = active.filter(a => !core.includes(a) || a.kind === 'selection');
+    }
 
-            // Categorical / String / Boolean fallback
-            if (!valueMap[attrId]) {
-                valueMap[attrId] = {};
-                reverseValueMap[attrId] = {};
+    // With the hard rules satisfied, find the least costly set of soft rules to give up
+    if (violations.length === 0) {
+        const optimizer = new Context.Optimize();
+        const tracked = buildTrackedSolver(config, rules, attributes, optimizer);
+        if (tracked.softRules.length > 0) {
+            addSoftRules(optimizer, tracked.softRules);
+            if (await optimizer.check(...tracked.assumptions.map(a => a.literal)) === 'sat') {
+                violations.push(...brokenSoftRules(optimizer.model(), tracked.softRules));
             }
+        }
+    }
+
+    return {
+        isValid: !violations.some(v => v.severity === 'error'),
+        violations
+    };
+};
 
-            if (valueMap[attrId][valStr] === undefined) {
-                // Assign next code
-                const nextCode = Object.keys(valueMap[attrId]).length + 1;
-                valueMap[attrId][valStr] = nextCode;
-                reverseValueMap[attrId][nextCode] = valStr;
+// One satisfiability check per candidate option of every unset attribute. Options that
+// make the model unsat are annotated with the rules from a minimal core.
+const computeDomainsNow = async (
+    config: Configuration,
+    rules: Rule[],
+    attributes: ProductAttribute[]
+): Promise<AttributeDomains> => {
+    if (!Context) await initZ3();
+    const { Bool, Implies } = Context;
+
+    const domains: AttributeDomains = {};
+    const { solver, encoding, assumptions } = buildTrackedSolver(config, rules, attributes);
+
+    // An already conflicting configuration says nothing about individual options.
+    const baseSat = await solver.check(...assumptions.map(a => a.literal)) === 'sat';
+
+    for (const attr of attributes) {
+        const current = config[attr.id];
+        const isMulti = attr.type === 'multi';
+        if (!attr.options || (!isMulti && current !== undefined && current !== null && current !== '')) continue;
+
+        // A multi-select stays open: each option not picked yet is tried on top of the current
+        // picks, which then only need to stay picked rather than be the exact selection
+        const picked: any[] = isMulti && Array.isArray(current) ? current : [];
+        const base = isMulti ? assumptions.filter(a => a.attribute !== attr.id) : assumptions;
+
+        domains[attr.id] = [];
+        for (const opt of attr.options.filter(o => !picked.includes(o.value))) {
+            if (!baseSat) {
+                domains[attr.id].push({ value: opt.value, available: true, excludedBy: [] });
+                continue;
             }
 
-            return valueMap[attrId][valStr];
-        };
+            const literal = Bool.const(`candidate::${attr.id}::${String(opt.value)}`);
+            solver.add(Implies(literal, isMulti
+                ? encoding.toZ3({ and: [...picked, opt.value].map(value => ({ attribute: attr.id, operator: 'contains', value })) })
+                : encoding.selectionToZ3(attr.id, opt.value)));
+            const candidate: TrackedAssumption = { literal, kind: 'selection', attribute: attr.id };
 
-        // --- Z3 TRANSLATION ---
-
-        const getZ3Expr = (attrId: string, op: string, val: any) => {
-            const z3Var = Int.const(attrId);
-            const code = getCode(attrId, val);
-            const z3Val = Int.val(code);
-
-            switch (op) {
-                case '==': return Eq(z3Var, z3Val);
-                case '!=': return Not(Eq(z3Var, z3Val));
-                case '>': return z3Var.gt(z3Val);
-                case '>=': return z3Var.ge(z3Val);
-                case '<': return z3Var.lt(z3Val);
-                case '<=': return z3Var.le(z3Val);
-                case 'in':
-                    // val should be array
-                    if (Array.isArray(val)) {
-                        const opts = val.map(v => Eq(z3Var, Int.val(getCode(attrId, v))));
-                        // Or(eq1, eq2, ...)
-                        return Or(...opts);
-                    }
-                    return Eq(z3Var, z3Val);
-                default: return Eq(z3Var, z3Val);
+            if (await solver.check(...base.map(a => a.literal), literal) === 'sat') {
+                domains[attr.id].push({ value: opt.value, available: true, excludedBy: [] });
+            } else {
+                const core = await minimizeCore(solver, [...base, candidate]);
+                const excludedBy = core.filter(a => a.kind === 'rule').map(a => a.rule!.id);
+                domains[attr.id].push({ value: opt.value, available: false, excludedBy });
             }
         }
+    }
+
+    return domains;
+};
+
+// Fills every unset required attribute from a satisfying model that breaks as few soft rules
+// as possible. When no completion exists, the minimal core names the selections and rules that block it.
+const completeNow = async (
+    config: Configuration,
+    rules: Rule[],
+    attributes: ProductAttribute[]
+): Promise<CompletionResult> => {
+    if (!Context) await initZ3();
+
+    const { solver, encoding, assumptions, softRules } = buildTrackedSolver(config, rules, attributes, new Context.Optimize());
+    addSoftRules(solver, softRules);
+    const result = await solver.check(...assumptions.map(a => a.literal));
+
+    if (result !== 'sat') {
+        const blockers = result === 'unsat'
+            ? coreToViolations(await minimizeCore(solver, assumptions))
+            : [{ rule_id: 'z3-unknown', message: "Z3 could not decide whether a completion exists.", severity: 'error' as const, source: 'Z3 SAT Solver' }];
+        return { success: false, config, filled: [], blockers };
+    }
+
+    const model = solver.model();
+    const completed: Configuration = { ...config };
+    const filled: string[] = [];
+
+    for (const attr of attributes) {
+        const current = config[attr.id];
+        if (!attr.required || (current !== undefined && current !== null && current !== '')) continue;
+
+        const value = encoding.decode(model, attr);
+        if (value !== undefined) {
+            completed[attr.id] = value;
+            filled.push(attr.id);
+        }
+    }
 
+    return { success: true, config: completed, filled, blockers: [] };
+};
 
-        // 2. Assert Rules (Hard Constraints)
-        for (const rule of rules) {
-            if (!rule.approved) continue;
+// Searches the free attributes for the best valid configuration with Z3 Optimize, keeping
+// the user's selections locked. 'min_price' finds the cheapest; 'max_preference' maximises
+// the summed preference weights (option price by default, i.e. the most premium build)
+// with price as a tie-breaker. Either can be capped by a budget. Soft rules take precedence
+// over both objectives: a cheaper build never comes at the cost of a broken soft rule.
+const optimizeNow = async (
+    config: Configuration,
+    rules: Rule[],
+    attributes: ProductAttribute[],
+    priceRules: PriceRule[],
+    goal: OptimizationGoal
+): Promise<OptimizationResult> => {
+    if (!Context) await initZ3();
+    const { Optimize, Real, If } = Context;
 
-            try {
-                const cond = getZ3Expr(rule.condition.attribute, rule.condition.operator, rule.condition.value);
+    const solve = async (objective: OptimizationGoal['objective'], budget?: number) => {
+        const optimizer = new Optimize();
+        const { encoding, assumptions, softRules } = buildTrackedSolver(config, rules, attributes, optimizer);
+        const total = encoding.priceToZ3(priceRules);
 
-                if (rule.type === 'implication') {
-                    const cons = getZ3Expr(rule.consequence!.attribute, rule.consequence!.operator, rule.consequence!.value);
-                    solver.add(Implies(cond, cons));
-                } else if (rule.type === 'exclusion') {
-                    solver.add(Not(cond));
-                }
-            } catch (e) {
-                console.warn("Skipping rule translation", e);
+        // Objectives are lexicographic in the order they are declared
+        addSoftRules(optimizer, softRules);
+
+        if (budget !== undefined) {
+            optimizer.add(total.le(Real.val(budget)));
+        }
+
+        if (objective === 'max_preference') {
+            let preference = Real.val(0);
+            for (const attr of attributes) {
+                attr.options?.forEach(opt => {
+                    const explicit = goal.preferences?.find(p => p.attribute === attr.id && p.value == opt.value);
+                    const weight = goal.preferences ? explicit?.weight : opt.price;
+                    if (!weight) return;
+                    // A multi-select option counts whenever it is among the picks
+                    const picked = attr.type === 'multi'
+                        ? encoding.toZ3({ attribute: attr.id, operator: 'contains', value: opt.value })
+                        : encoding.selectionToZ3(attr.id, opt.value);
+                    preference = preference.add(If(picked, Real.val(weight), Real.val(0)));
+                });
             }
+            optimizer.maximize(preference);
         }
+        optimizer.minimize(total);
 
-        // 3. Assert User Config (Assumptions)
-        const userAssertions = [];
-        for (const [key, value] of Object.entries(config)) {
-            if (value !== undefined && value !== "") {
-                const z3Var = Int.const(key);
-                const code = getCode(key, value);
-                userAssertions.push(Eq(z3Var, Int.val(code)));
+        const result = await optimizer.check(...assumptions.map(a => a.literal));
+        return { result, optimizer, encoding };
+    };
+
+    const unknown = (): OptimizationResult => ({
+        success: false, config, filled: [], blockers: [{
+            rule_id: 'z3-unknown',
+            message: "Z3 could not decide whether an optimal configuration exists.",
+            severity: 'error',
+            source: 'Z3 Optimizer'
+        }]
+    });
+
+    // The user's selections plus every free attribute the model decides
+    const fill = (model: any, encoding: ReturnType<typeof buildEncoding>) => {
+        const optimized: Configuration = { ...config };
+        const filled: string[] = [];
+        for (const attr of attributes) {
+            const current = config[attr.id];
+            if (current !== undefined && current !== null && current !== '') continue;
+            if (!attr.required && !attr.options) continue;
+
+            const value = encoding.decode(model, attr);
+            if (value !== undefined) {
+                optimized[attr.id] = value;
+                filled.push(attr.id);
             }
         }
+        return { optimized, filled };
+    };
 
-        // 4. Check SAT
-        const result = await solver.check(...userAssertions);
+    const { result, optimizer, encoding } = await solve(goal.objective, goal.budget);
+    if (result === 'unknown') return unknown();
 
-        if (result === 'unsat') {
-            // const core = solver.unsat_core(); // Not available in this build?
-            violations.push({
-                rule_id: 'z3-constraint',
-                message: "Configuration violates constraints (Detected by Z3 Engine).",
+    if (result === 'unsat') {
+        // Without a budget only the selections and rules can be at fault, which completion explains
+        const completion = await completeNow(config, rules, attributes);
+        if (!completion.success || goal.budget === undefined) return completion.success ? unknown() : completion;
+
+        // Tell a budget that is too tight apart from selections that can never be valid
+        const cheapest = await solve('min_price');
+        const cheapestText = cheapest.result === 'sat'
+            ? ` The cheapest valid option costs ${formatPrice(calculatePrice(fill(cheapest.optimizer.model(), cheapest.encoding).optimized, attributes, priceRules).total)}.`
+            : '';
+        return {
+            success: false, config, filled: [], blockers: [{
+                rule_id: 'budget',
+                message: `No valid configuration fits a budget of ${formatPrice(goal.budget)}.${cheapestText}`,
                 severity: 'error',
-                source: 'Z3 SAT Solver',
-                involvedAttributes: Object.keys(config) // Blame everything for now
-            });
-        }
-    } finally {
-        isRunning = false;
+                source: 'Z3 Optimizer'
+            }]
+        };
     }
 
+    const { optimized, filled } = fill(optimizer.model(), encoding);
     return {
-        isValid: violations.length === 0,
-        violations
+        success: true,
+        config: optimized,
+        filled,
+        blockers: [],
+        total: calculatePrice(optimized, attributes, priceRules).total
     };
 };
 
+// Queued entry points. Pass a channel to let a newer request on it supersede this one.
+export const validateZ3 = (config: Configuration, rules: Rule[], attributes: ProductAttribute[], channel?: string) =>
+    enqueueZ3(() => validateNow(config, rules, attributes), channel);
+
+export const computeDomainsZ3 = (config: Configuration, rules: Rule[], attributes: ProductAttribute[], channel?: string) =>
+    enqueueZ3(() => computeDomainsNow(config, rules, attributes), channel);
+
+export const completeZ3 = (config: Configuration, rules: Rule[], attributes: ProductAttribute[]) =>
+    enqueueZ3(() => completeNow(config, rules, attributes));
+
+export const optimizeZ3 = (config: Configuration, rules: Rule[], attributes: ProductAttribute[], priceRules: PriceRule[], goal: OptimizationGoal) =>
+    enqueueZ3(() => optimizeNow(config, rules, attributes, priceRules, goal));
+
+const engineFailure = (e: unknown): ValidationViolation => ({
+    rule_id: e instanceof Z3Timeout ? 'z3-timeout' : 'z3-error',
+    message: e instanceof Z3Timeout ? `${e.message}.` : "Z3 Engine Crashed. Please check console.",
+    severity: 'error',
+    source: 'System'
+});
+
 export class Z3SatEngine implements ValidationEngine {
-    async validate(config: Configuration, rules: Rule[], attributes: ProductAttribute[]): Promise<ValidationResult> {
+    async validate(config: Configuration, rules: Rule[], attributes: ProductAttribute[], channel?: string): Promise<ValidationResult> {
         try {
-            return await validateZ3(config, rules, attributes);
+            return await validateZ3(config, rules, attributes, channel);
         } catch (e) {
+            if (e instanceof Z3Cancelled) return { isValid: false, violations: [], status: 'cancelled' };
             console.error("Z3 Engine Failed", e);
-            return {
-                isValid: false, violations: [{
-                    rule_id: 'z3-error',
-                    message: "Z3 Engine Crashed. Please check console.",
-                    severity: 'error',
-                    source: 'System'
-                }]
-            };
+            return { isValid: false, violations: [engineFailure(e)] };
+        }
+    }
+
+    async complete(config: Configuration, rules: Rule[], attributes: ProductAttribute[]): Promise<CompletionResult> {
+        try {
+            return await completeZ3(config, rules, attributes);
+        } catch (e) {
+            console.error("Z3 completion failed", e);
+            return { success: false, config, filled: [], blockers: [engineFailure(e)] };
+        }
+    }
+
+    async optimize(config: Configuration, rules: Rule[], attributes: ProductAttribute[], priceRules: PriceRule[], goal: OptimizationGoal): Promise<OptimizationResult> {
+        try {
+            return await optimizeZ3(config, rules, attributes, priceRules, goal);
+        } catch (e) {
+            console.error("Z3 optimization failed", e);
+            return { success: false, config, filled: [], blockers: [engineFailure(e)] };
+        }
+    }
+
+    async computeDomains(config: Configuration, rules: Rule[], attributes: ProductAttribute[], channel?: string): Promise<AttributeDomains> {
+        try {
+            return await computeDomainsZ3(config, rules, attributes, channel);
+        } catch (e) {
+            if (e instanceof Z3Cancelled) return {};
+            console.error("Z3 domain filtering failed", e);
+            return {};
         }
     }
 }
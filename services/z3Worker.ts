@@ -0,0 +1,50 @@
+// Worker entry: runs the Z3 engine off the main thread. Started by Z3WorkerEngine.
+import { validateZ3, computeDomainsZ3, completeZ3, optimizeZ3, Z3Cancelled } from './z3Service';
+import { analyzeKnowledgeBase } from './analyzer';
+import type { Z3WorkerRequest, Z3WorkerResponse } from './z3WorkerEngine';
+
+const Z3_SCRIPT_URL = '/z3-built.js';
+const scope = self as any;
+
+// z3-built.js is a classic script served from public/, which a module worker cannot import.
+// Evaluated here, it would look for its .wasm and start its solver threads relative to the
+// worker's URL, so both are pointed back at the script's own location.
+const loadZ3Script = async () => {
+  if (scope.initZ3) return;
+  scope.global = scope;
+  const source = await (await fetch(Z3_SCRIPT_URL)).text();
+  (0, eval)(source);
+  const initZ3 = scope.initZ3;
+  scope.initZ3 = (options: object = {}) => initZ3({
+    ...options,
+    mainScriptUrlOrBlob: Z3_SCRIPT_URL,
+    locateFile: (file: string) => new URL(file, new URL(Z3_SCRIPT_URL, scope.location.href)).href
+  });
+};
+
+const run = async ({ op, args, channel }: Z3WorkerRequest): Promise<any> => {
+  await loadZ3Script();
+  switch (op) {
+    case 'validate': return validateZ3(args[0], args[1], args[2], channel);
+    case 'computeDomains': return computeDomainsZ3(args[0], args[1], args[2], channel);
+    case 'complete': return completeZ3(args[0], args[1], args[2]);
+    case 'optimize': return optimizeZ3(args[0], args[1], args[2], args[3], args[4]);
+    case 'analyze': return analyzeKnowledgeBase(args[0], args[1]);
+  }
+};
+
+scope.onmessage = async (event: MessageEvent<Z3WorkerRequest>) => {
+  const { id } = event.data;
+  let response: Z3WorkerResponse;
+  try {
+    response = { id, result: await run(event.data) };
+  } catch (e) {
+    if (e instanceof Z3Cancelled) {
+      response = { id, cancelled: true };
+    } else {
+      console.error(`Z3 worker ${event.data.op} failed`, e);
+      response = { id, error: e instanceof Error ? e.message : String(e) };
+    }
+  }
+  scope.postMessage(response);
+};
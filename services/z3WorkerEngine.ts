@@ -0,0 +1,136 @@
+import { Configuration, Rule, ProductAttribute, ValidationResult, ValidationViolation, AttributeDomains, CompletionResult, PriceRule, OptimizationGoal, OptimizationResult, ConsistencyReport } from '../types';
+import { ValidationEngine } from './engine';
+
+export type Z3WorkerOp = 'validate' | 'computeDomains' | 'complete' | 'optimize' | 'analyze';
+
+export interface Z3WorkerRequest {
+  id: number;
+  op: Z3WorkerOp;
+  args: any[]; // The arguments of the matching z3Service function, structured-cloned
+  channel?: string; // See enqueueZ3 in z3Service
+}
+
+export interface Z3WorkerResponse {
+  id: number;
+  result?: any;
+  cancelled?: boolean; // Superseded by a newer request on the same channel
+  error?: string;
+}
+
+// Long enough for the first call, which also loads the Z3 wasm module
+const DEFAULT_TIMEOUT_MS = 30000;
+
+class Cancelled extends Error {}
+
+interface PendingCall {
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+const engineFailure = (e: unknown): ValidationViolation => ({
+  rule_id: 'z3-error',
+  message: (e as Error).message,
+  severity: 'error',
+  source: 'System'
+});
+
+// The Z3 engine behind a dedicated Web Worker, so solving never blocks the UI.
+// A call that does not answer in time, an error inside Z3 or a crash of the worker
+// terminates it, since its Z3 context can no longer be trusted. Every call in flight
+// then fails, and the next call starts a fresh worker.
+export class Z3WorkerEngine implements ValidationEngine {
+  private worker: Worker | null = null;
+  private nextId = 0;
+  private pending = new Map<number, PendingCall>();
+
+  constructor(private timeoutMs = DEFAULT_TIMEOUT_MS) {}
+
+  private start(): Worker {
+    const worker = new Worker(new URL('./z3Worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<Z3WorkerResponse>) => {
+      const { id, result, cancelled, error } = event.data;
+      const call = this.pending.get(id);
+      if (!call) return;
+      if (error !== undefined) return this.restart(`Z3 Engine Failed: ${error}. Restarting the solver.`);
+
+      clearTimeout(call.timer);
+      this.pending.delete(id);
+      if (cancelled) call.reject(new Cancelled());
+      else call.resolve(result);
+    };
+    worker.onerror = (event) => {
+      event.preventDefault();
+      this.restart(`Z3 Engine Crashed: ${event.message || 'unknown error'}. Restarting the solver.`);
+    };
+    this.worker = worker;
+    return worker;
+  }
+
+  private restart(reason: string) {
+    console.error(reason);
+    this.worker?.terminate();
+    this.worker = null;
+    const calls = [...this.pending.values()];
+    this.pending.clear();
+    calls.forEach(call => {
+      clearTimeout(call.timer);
+      call.reject(new Error(reason));
+    });
+  }
+
+  private call<T>(op: Z3WorkerOp, args: any[], channel?: string): Promise<T> {
+    const worker = this.worker || this.start();
+    const id = this.nextId++;
+    return new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(
+        () => this.restart(`Z3 did not answer within ${this.timeoutMs / 1000}s. Restarting the solver.`),
+        this.timeoutMs
+      );
+      this.pending.set(id, { resolve, reject, timer });
+      const request: Z3WorkerRequest = { id, op, args, channel };
+      worker.postMessage(request);
+    });
+  }
+
+  async validate(config: Configuration, rules: Rule[], attributes: ProductAttribute[], channel?: string): Promise<ValidationResult> {
+    try {
+      return await this.call<ValidationResult>('validate', [config, rules, attributes], channel);
+    } catch (e) {
+      if (e instanceof Cancelled) return { isValid: false, violations: [], status: 'cancelled' };
+      return { isValid: false, violations: [engineFailure(e)] };
+    }
+  }
+
+  async complete(config: Configuration, rules: Rule[], attributes: ProductAttribute[]): Promise<CompletionResult> {
+    try {
+      return await this.call<CompletionResult>('complete', [config, rules, attributes]);
+    } catch (e) {
+      return { success: false, config, filled: [], blockers: [engineFailure(e)] };
+    }
+  }
+
+  async optimize(config: Configuration, rules: Rule[], attributes: ProductAttribute[], priceRules: PriceRule[], goal: OptimizationGoal): Promise<OptimizationResult> {
+    try {
+      return await this.call<OptimizationResult>('optimize', [config, rules, attributes, priceRules, goal]);
+    } catch (e) {
+      return { success: false, config, filled: [], blockers: [engineFailure(e)] };
+    }
+  }
+
+  async computeDomains(config: Configuration, rules: Rule[], attributes: ProductAttribute[], channel?: string): Promise<AttributeDomains> {
+    try {
+      return await this.call<AttributeDomains>('computeDomains', [config, rules, attributes], channel);
+    } catch {
+      return {};
+    }
+  }
+
+  // Rejects on failure, like analyzeKnowledgeBase
+  analyze(rules: Rule[], attributes: ProductAttribute[]): Promise<ConsistencyReport> {
+    return this.call<ConsistencyReport>('analyze', [rules, attributes]);
+  }
+}
+
+// Shared by all pages so the app loads Z3 into a single worker
+export const z3Engine = new Z3WorkerEngine();
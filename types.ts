@@ -1,19 +1,73 @@
+export interface AttributeOption {
+  label: string;
+  value: any;
+  price?: number; // Added to the quote when this option is selected
+}
+
+// 'multi' picks any number of its options (the value is a list of option values);
+// 'quantity' is a whole number such as the number of fans. A 'number' without options is
+// entered freely, e.g. 7.5 hp, within its min/max range.
 export interface ProductAttribute {
   id: string;
   name: string;
-  type: 'number' | 'string' | 'boolean';
-  options?: { label: string; value: any }[];
+  type: 'number' | 'string' | 'boolean' | 'multi' | 'quantity';
+  options?: AttributeOption[];
+  min?: number; // Number and quantity: lowest allowed value. Multi: fewest options to pick.
+  max?: number; // Number and quantity: highest allowed value. Multi: most options to pick.
+  step?: number; // Number: allowed increments counted from min, e.g. 0.5
+  unit?: string; // Number: shown after the value, e.g. "hp"
   required?: boolean;
   defaultValue?: any;
+  basePrice?: number; // Charged once the attribute has any value
 }
 
 export interface Configuration {
   [attributeId: string]: any;
 }
 
+export type ConditionOperator = '>' | '>=' | '<' | '<=' | '==' | '!=' | 'in'
+  | 'contains' | 'containsAny' | 'count>=' | 'count<='; // Multi-select only
+
 export interface RuleCondition {
   attribute: string;
-  operator: '>' | '>=' | '<' | '<=' | '==' | '!=' | 'in';
+  operator: ConditionOperator;
+  value: any; // A literal, or a ValueExpression when comparing a numeric attribute
+}
+
+// Arithmetic over other attributes, used as a condition or assignment value. E.g.
+// "cooling_capacity >= 400 * motor_hp" compares against { op: '*', args: [400, { ref: 'motor_hp' }] }.
+export interface AttributeRef {
+  ref: string;
+}
+
+export type ArithmeticOperator = '+' | '-' | '*' | '/' | 'min' | 'max';
+
+export interface ArithmeticExpression {
+  op: ArithmeticOperator;
+  args: ValueExpression[]; // A single argument to '-' negates it
+}
+
+export type ValueExpression = number | AttributeRef | ArithmeticExpression;
+
+// Boolean combinators over conditions. A rule side is either a single
+// RuleCondition (the original shape) or a nested tree of these.
+export interface AndExpression {
+  and: RuleExpression[];
+}
+
+export interface OrExpression {
+  or: RuleExpression[];
+}
+
+export interface NotExpression {
+  not: RuleExpression;
+}
+
+export type RuleExpression = RuleCondition | AndExpression | OrExpression | NotExpression;
+
+// Derived value: when the rule's condition holds, the attribute is computed rather than chosen.
+export interface AttributeAssignment {
+  attribute: string;
   value: any;
 }
 
@@ -22,26 +76,120 @@ export interface Rule {
   source_doc?: string;
   source_clause?: string;
   natural_text: string;
-  type: 'implication' | 'exclusion';
-  condition: RuleCondition;
-  consequence?: RuleCondition; // For implication
-  priority: number;
+  type: 'implication' | 'exclusion' | 'assignment';
+  condition: RuleExpression;
+  consequence?: RuleExpression; // For implication
+  assignment?: AttributeAssignment; // For assignment
+  strength?: 'hard' | 'soft'; // Hard when omitted. Soft rules only warn and may be traded off.
+  priority: number; // Weight of a soft rule when several of them compete
   confidence: number;
   approved: boolean;
   created_at: string;
 }
 
+// A passage of an ingested document, e.g. { label: '3.2', text: '3.2 Cooling. Marine units ...' }.
+// Rules extracted from it keep the text as their source_clause.
+export interface DocumentClause {
+  label: string;
+  text: string;
+}
+
+// Clauses sent to the extractor in one prompt; `text` is what the prompt shows, each clause tagged with its label
+export interface DocumentChunk {
+  text: string;
+  clauses: DocumentClause[];
+}
+
+export interface PriceTier {
+  min: number; // Applies when the tier attribute is >= min; the highest matching tier wins
+  amount?: number;
+  percent?: number;
+}
+
+// Conditional price adjustments, kept alongside the logical rules.
+// Amounts are flat; percentages apply to the subtotal of base and option prices.
+export interface PriceRule {
+  id: string;
+  name: string;
+  type: 'surcharge' | 'discount' | 'tier';
+  condition?: RuleExpression; // Always applies when omitted
+  amount?: number;
+  percent?: number;
+  attribute?: string; // For tier: the numeric attribute the tiers are keyed on
+  tiers?: PriceTier[];
+  source_doc?: string;
+}
+
+export interface PriceLine {
+  label: string;
+  amount: number;
+  kind: 'base' | 'option' | 'adjustment';
+  attribute?: string;
+  price_rule_id?: string;
+}
+
+export interface PriceBreakdown {
+  lines: PriceLine[];
+  subtotal: number; // Base and option prices before adjustments
+  total: number;
+}
+
 export interface ValidationViolation {
   rule_id: string;
   message: string;
   severity: 'error' | 'warning';
   source?: string;
   involvedAttributes?: string[];
+  weight?: number; // For warnings from soft rules: the rule's priority
 }
 
 export interface ValidationResult {
-  isValid: boolean;
+  isValid: boolean; // No errors; warnings from soft rules do not make a configuration invalid
   violations: ValidationViolation[];
+  // Set while no verdict exists yet: 'validating' while a check is queued or running,
+  // 'cancelled' when a newer request superseded it. isValid is then not a pass.
+  status?: 'validating' | 'cancelled';
+}
+
+// Whether an option of a not-yet-selected attribute can still lead to a valid configuration.
+export interface OptionAvailability {
+  value: any;
+  available: boolean;
+  excludedBy?: string[]; // Rule ids that rule this option out
+}
+
+export type AttributeDomains = Record<string, OptionAvailability[]>;
+
+export interface CompletionResult {
+  success: boolean;
+  config: Configuration; // The completed configuration (unchanged input when unsuccessful)
+  filled: string[]; // Attribute ids that were filled in by the solver
+  blockers: ValidationViolation[]; // Why no completion exists
+}
+
+export interface OptimizationGoal {
+  objective: 'min_price' | 'max_preference';
+  budget?: number; // Upper bound on the total price
+  preferences?: { attribute: string; value: any; weight: number }[];
+}
+
+export interface OptimizationResult extends CompletionResult {
+  total?: number; // Price of the optimized configuration
+}
+
+// Findings of the knowledge-base analyzer over the approved rules.
+export interface ConsistencyIssue {
+  kind: 'unsatisfiable' | 'dead_rule' | 'redundant_rule' | 'dead_option';
+  message: string;
+  rule_ids: string[]; // Rules involved; for redundant_rule the first id is the redundant one
+  attribute?: string; // For dead_option
+  value?: any;
+}
+
+export interface ConsistencyReport {
+  consistent: boolean; // False when no configuration satisfies all rules
+  issues: ConsistencyIssue[];
+  checkedAt: string;
 }
 
 export interface Suggestion {
@@ -52,12 +200,140 @@ export interface Suggestion {
   explanation: string;
 }
 
+// A further product that can go on a quote next to the main one, e.g. an accessory kit,
+// with its own attribute model, rules and prices
+export interface ComponentModel {
+  id: string;
+  name: string;
+  attributes: ProductAttribute[];
+  rules: Rule[];
+  priceRules?: PriceRule[];
+}
+
+// One configured item on a quote
+export interface LineItem {
+  id: string;
+  model: string; // 'main' for the project's own product, otherwise a ComponentModel id
+  quantity: number;
+  config: Configuration;
+}
+
+// The lines of a quote a cross-item rule is about: lines of one model, optionally narrowed by their configuration
+export interface LineSelector {
+  model: string;
+  condition?: RuleExpression; // Over the model's attributes; every line of the model when omitted
+}
+
+// Rule across the lines of a quote, counted in units (line quantities). 'requires': each unit
+// matching `when` needs `ratio` units matching `then`, e.g. one corrosion kit per marine unit.
+// 'excludes': units matching `when` and `then` cannot be on the same quote.
+export interface QuoteRule {
+  id: string;
+  natural_text: string;
+  type: 'requires' | 'excludes';
+  when: LineSelector;
+  then: LineSelector;
+  ratio?: number; // 'requires' only; 1 when omitted
+  strength?: 'hard' | 'soft';
+  approved: boolean;
+  source_doc?: string;
+}
+
+export interface QuoteViolation extends ValidationViolation {
+  line_ids: string[]; // Lines that triggered the rule
+}
+
+export interface QuoteValidationResult {
+  isValid: boolean; // Every line is valid on its own and no cross-item rule fails
+  lines: Record<string, ValidationResult>; // Keyed by line item id
+  violations: QuoteViolation[]; // From cross-item rules
+}
+
+// Bill of materials row: one line item at its configured unit price
+export interface BomLine {
+  line_id: string;
+  model: string;
+  label: string; // Model name
+  description: string; // The chosen values, e.g. "motor-B, ACM-500, marine"
+  quantity: number;
+  unitPrice: number;
+  total: number;
+}
+
+export interface QuotePrice {
+  lines: BomLine[];
+  total: number;
+}
+
 export interface ProjectData {
+  formatVersion?: number; // Missing in exports made before the format was versioned
   attributes: ProductAttribute[];
   rules: Rule[];
+  drafts?: Rule[]; // Extracted rules still awaiting review
+  auditLog?: AuditEvent[]; // Append-only history of rule changes
+  goldenTests?: GoldenTest[];
+  priceRules?: PriceRule[];
   config?: Configuration;
+  components?: ComponentModel[]; // Further products that can be quoted with the main one
+  quoteRules?: QuoteRule[];
+  quote?: LineItem[];
   metadata?: {
     appName: string;
     exportedAt: string;
   };
-}
\ No newline at end of file
+}
+
+// A known configuration with its expected outcome, re-checked whenever the rules or model change
+export interface GoldenTest {
+  id: string;
+  name: string;
+  config: Configuration;
+  expect: 'valid' | 'invalid';
+  expectedRuleIds?: string[]; // For 'invalid': rules that must be among the errors; any error passes when empty
+}
+
+export interface GoldenTestResult {
+  test_id: string;
+  engine: 'deterministic' | 'z3';
+  passed: boolean;
+  message: string; // Why the test failed, or a short summary when it passed
+}
+
+export type AuditAction =
+  | 'extracted' | 'approved' | 'discarded' | 'edited'
+  | 'deactivated' | 'activated' | 'deleted' | 'imported' | 'restored';
+
+// One rule lifecycle event. `before` and `after` are full snapshots of the rule, so the
+// knowledge base can be rolled back by undoing events. Draft events never touch the knowledge base.
+export interface AuditEvent {
+  id: string;
+  rule_id: string;
+  action: AuditAction;
+  target: 'draft' | 'rule';
+  actor: string;
+  timestamp: string;
+  before?: Rule; // Missing when the rule was created by this event
+  after?: Rule; // Missing when the rule was removed by this event
+  source_doc?: string;
+}
+
+// Entry in the local workspace index; the project data itself is stored separately
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  updatedAt: string;
+}
+
+// A problem found while validating imported project data, e.g. { path: 'rules[2].condition', message: ... }
+export interface ProjectFieldError {
+  path: string;
+  message: string;
+}
+
+export type ImportMode = 'replace' | 'merge';
+
+// How merge resolves an imported item whose id already exists in the open project
+export interface ImportConflictPolicy {
+  attributes: 'keep' | 'overwrite';
+  rules: 'keep' | 'overwrite' | 'rename';
+}